@@ -1,15 +1,24 @@
 import {
   App,
+  FuzzySuggestModal,
   ItemView,
+  MarkdownRenderChild,
+  Menu,
   Modal,
+  Modifier,
   Notice,
+  ObsidianProtocolData,
   Plugin,
   PluginSettingTab,
   requestUrl,
+  Scope,
   Setting,
+  TAbstractFile,
   TFile,
   WorkspaceLeaf,
-  debounce
+  debounce,
+  moment,
+  normalizePath
 } from "obsidian";
 import ICAL from "ical.js";
 
@@ -19,20 +28,185 @@ type TaskItem = {
   file: TFile;
   line: number;
   text: string;
-  completed: boolean;
-  project?: string;
+  status: TaskStatus;
+  projects: string[];
   context?: string;
+  defer?: string;
   planned?: string;
   due?: string;
   review?: string;
+  repeat?: string;
+  done?: string;
+  blockedBy?: string[];
+  flagged: boolean;
+  priority?: TaskPriority;
   tags: string[];
   subitems: TaskSubItem[];
+  parent?: TaskItem;
+  children: TaskItem[];
+  blockId?: string;
+  fingerprint: string;
 };
 
 type TaskSubItem = {
   text: string;
-  completed?: boolean;
-  kind: "task" | "note";
+};
+
+type TaskStatus =
+  | "open"
+  | "in-progress"
+  | "waiting"
+  | "cancelled"
+  | "done"
+  | "forwarded";
+
+const TASK_STATUS_SYMBOLS: Record<TaskStatus, string> = {
+  open: " ",
+  "in-progress": "/",
+  waiting: "?",
+  done: "x",
+  cancelled: "-",
+  forwarded: ">"
+};
+
+const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  open: "Öppen",
+  "in-progress": "Pågående",
+  waiting: "Väntar",
+  done: "Klar",
+  cancelled: "Avbruten",
+  forwarded: "Vidarebefordrad"
+};
+
+type TaskPriority = "highest" | "high" | "medium" | "low" | "lowest";
+
+const TASK_PRIORITY_LABELS: Record<TaskPriority, string> = {
+  highest: "Högsta",
+  high: "Hög",
+  medium: "Medel",
+  low: "Låg",
+  lowest: "Lägsta"
+};
+
+const TASK_LINE_REGEX = /^(\s*[-*])\s+\[([ xX\-/>?])\]\s+(.*)$/;
+
+type ProjectType = "parallel" | "sequential";
+
+type ProjectStatus = "active" | "on-hold" | "completed" | "dropped";
+
+const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  active: "Aktiv",
+  "on-hold": "Pausad",
+  completed: "Avslutad",
+  dropped: "Nedlagd"
+};
+
+const PROJECT_STATUS_ACTIONS: Record<ProjectStatus, string> = {
+  active: "Aktivera",
+  "on-hold": "Pausa",
+  completed: "Avsluta",
+  dropped: "Lägg ned"
+};
+
+const PROJECT_FRONTMATTER_KEYS = [
+  "status",
+  "review-interval",
+  "last-reviewed",
+  "next-review",
+  "due",
+  "defer",
+  "project-type",
+  "projekt"
+];
+
+type ProjectInfo = {
+  name: string;
+  file?: TFile;
+  status: ProjectStatus;
+  reviewInterval?: string;
+  lastReviewed?: string;
+  nextReview?: string;
+  due?: string;
+  defer?: string;
+};
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  söndag: 0,
+  sön: 0,
+  sunday: 0,
+  sun: 0,
+  måndag: 1,
+  mån: 1,
+  monday: 1,
+  mon: 1,
+  tisdag: 2,
+  tis: 2,
+  tuesday: 2,
+  tue: 2,
+  onsdag: 3,
+  ons: 3,
+  wednesday: 3,
+  wed: 3,
+  torsdag: 4,
+  tors: 4,
+  thursday: 4,
+  thu: 4,
+  fredag: 5,
+  fre: 5,
+  friday: 5,
+  fri: 5,
+  lördag: 6,
+  lör: 6,
+  saturday: 6,
+  sat: 6
+};
+
+const DATE_UNIT_NAMES: Record<string, "d" | "w" | "m" | "y"> = {
+  dag: "d",
+  dagar: "d",
+  day: "d",
+  days: "d",
+  vecka: "w",
+  veckor: "w",
+  week: "w",
+  weeks: "w",
+  månad: "m",
+  månader: "m",
+  month: "m",
+  months: "m",
+  år: "y",
+  year: "y",
+  years: "y"
+};
+
+type MetadataFormat = "inline" | "bracket" | "tasks";
+
+type TasksEmojiField = "repeat" | "created" | "defer" | "planned" | "due" | "done";
+
+const TASKS_EMOJI: Record<TasksEmojiField, string> = {
+  repeat: "🔁",
+  created: "➕",
+  defer: "🛫",
+  planned: "⏳",
+  due: "📅",
+  done: "✅"
+};
+
+const TASKS_PRIORITY_EMOJI: Record<TaskPriority, string> = {
+  highest: "🔺",
+  high: "⏫",
+  medium: "🔼",
+  low: "🔽",
+  lowest: "⏬"
+};
+
+const TASKS_SIGNIFIER_PATTERN = "(?:🔁|➕|🛫|⏳|📅|✅|⏫|🔼|🔽|🔺|⏬)";
+
+type RepeatRule = {
+  unit: "day" | "week" | "month" | "year" | "weekday";
+  interval: number;
+  dayOfMonth?: number;
+  fromCompletion: boolean;
 };
 
 type CalendarEvent = {
@@ -50,6 +224,174 @@ type CalendarSource = {
   url: string;
 };
 
+type ProjectReview = {
+  info: ProjectInfo;
+  tasks: TaskItem[];
+  lastReviewed?: string;
+  nextReview: string;
+};
+
+type PerspectiveGrouping = "none" | "project" | "context" | "tag" | "date";
+
+type PerspectiveSort = "date" | "priority" | "file" | "text";
+
+type CustomPerspective = {
+  id: string;
+  name: string;
+  query: string;
+  grouping: PerspectiveGrouping;
+  sort: PerspectiveSort;
+};
+
+type FocusTasksSection =
+  | "inbox"
+  | "today"
+  | "flagged"
+  | "projects"
+  | "review"
+  | "tags"
+  | "contexts"
+  | "forecast"
+  | "available"
+  | "logbook"
+  | `perspective:${string}`;
+
+const FOCUS_TASKS_SECTIONS: FocusTasksSection[] = [
+  "inbox",
+  "today",
+  "flagged",
+  "projects",
+  "review",
+  "tags",
+  "contexts",
+  "forecast",
+  "available",
+  "logbook"
+];
+
+type TaskBlockOptions = {
+  query: TaskQueryNode;
+  grouping: PerspectiveGrouping;
+  sort: PerspectiveSort;
+  showCompleted: boolean;
+};
+
+const PERSPECTIVE_EMPTY_GROUP_TITLES: Record<PerspectiveGrouping, string> = {
+  none: "",
+  project: "Utan projekt",
+  context: "Utan kontext",
+  tag: "Utan taggar",
+  date: "Utan datum"
+};
+
+type TaskSearchHit = {
+  label: string;
+  value: string;
+  indices: number[];
+};
+
+type TaskSearchMatch = {
+  task: TaskItem;
+  score: number;
+  hits: TaskSearchHit[];
+};
+
+type HierarchyKind = "context" | "tag";
+
+type HierarchyNode = {
+  name: string;
+  path: string;
+  count: number;
+  children: HierarchyNode[];
+};
+
+type TaskQueryField =
+  | "text"
+  | "project"
+  | "context"
+  | "status"
+  | "priority"
+  | "tag"
+  | "file"
+  | "repeat"
+  | "defer"
+  | "planned"
+  | "due"
+  | "review"
+  | "done";
+
+type TaskQueryFlag = "flagged" | "blocked" | "available" | "deferred" | "overdue";
+
+type TaskQueryOperator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "~";
+
+type TaskQueryNode =
+  | { type: "all" }
+  | { type: "and" | "or"; left: TaskQueryNode; right: TaskQueryNode }
+  | { type: "not"; operand: TaskQueryNode }
+  | { type: "tag"; tag: string }
+  | { type: "flag"; flag: TaskQueryFlag }
+  | { type: "exists"; field: TaskQueryField }
+  | {
+      type: "compare";
+      field: TaskQueryField;
+      operator: TaskQueryOperator;
+      value: string;
+    };
+
+type TaskQueryToken = {
+  type: "word" | "string" | "tag" | "op" | "paren";
+  value: string;
+};
+
+type TaskQueryContext = {
+  today: string;
+  blocked: Set<TaskItem>;
+  getProjects: (task: TaskItem) => string[];
+};
+
+const TASK_QUERY_FIELDS: Record<string, TaskQueryField> = {
+  text: "text",
+  project: "project",
+  projekt: "project",
+  context: "context",
+  kontext: "context",
+  område: "context",
+  status: "status",
+  priority: "priority",
+  prioritet: "priority",
+  tag: "tag",
+  tagg: "tag",
+  file: "file",
+  fil: "file",
+  repeat: "repeat",
+  defer: "defer",
+  planned: "planned",
+  due: "due",
+  review: "review",
+  done: "done"
+};
+
+const TASK_QUERY_FLAGS: Record<string, TaskQueryFlag> = {
+  flagged: "flagged",
+  flaggad: "flagged",
+  blocked: "blocked",
+  blockerad: "blocked",
+  available: "available",
+  tillgänglig: "available",
+  deferred: "deferred",
+  uppskjuten: "deferred",
+  overdue: "overdue",
+  försenad: "overdue"
+};
+
+const TASK_QUERY_DATE_FIELDS: TaskQueryField[] = [
+  "defer",
+  "planned",
+  "due",
+  "review",
+  "done"
+];
+
 type FocusTasksSettings = {
   calendarSources: CalendarSource[];
   calendarRangeDays: number;
@@ -59,8 +401,61 @@ type FocusTasksSettings = {
   googleApiKey: string;
   openaiApiKey: string;
   openaiModel: string;
+  metadataFormat: MetadataFormat;
+  perspectives: CustomPerspective[];
+  includePatterns: string[];
+  excludePatterns: string[];
+  templatesFolder: string;
+  reviewInterval: string;
+  captureTarget: CaptureTarget;
+  captureNotePath: string;
+  captureHeading: string;
+};
+
+type CaptureTarget = "inbox" | "daily";
+
+type DailyNotesApp = App & {
+  internalPlugins?: {
+    getPluginById(id: string): {
+      instance?: { options?: { folder?: string; format?: string } };
+    } | null;
+  };
+};
+
+type TaskMoveTarget = {
+  file: TFile;
+  heading?: string;
+  level?: number;
+  line?: number;
+};
+
+type LineEdit = {
+  file: TFile;
+  start: number;
+  before: string[];
+  after: string[];
+};
+
+type LineRun = {
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+};
+
+type EditEntry = {
+  label: string;
+  edits: LineEdit[];
 };
 
+const EDIT_HISTORY_LIMIT = 50;
+const DIFF_CELL_LIMIT = 1000000;
+
+type TaskScanRules = Pick<
+  FocusTasksSettings,
+  "includePatterns" | "excludePatterns" | "templatesFolder"
+>;
+
 const DEFAULT_SETTINGS: FocusTasksSettings = {
   calendarSources: Array.from({ length: 10 }, () => ({ name: "", url: "" })),
   calendarRangeDays: 7,
@@ -69,2167 +464,6763 @@ const DEFAULT_SETTINGS: FocusTasksSettings = {
   ocrProvider: "tesseract",
   googleApiKey: "",
   openaiApiKey: "",
-  openaiModel: "gpt-4o-mini"
+  openaiModel: "gpt-4o-mini",
+  metadataFormat: "inline",
+  perspectives: [],
+  includePatterns: [],
+  excludePatterns: [],
+  templatesFolder: "",
+  reviewInterval: "1 week",
+  captureTarget: "inbox",
+  captureNotePath: "Inbox.md",
+  captureHeading: ""
 };
 
 class TaskIndex {
   private app: App;
-  private refreshDebounced: () => void;
+  private getRules: () => TaskScanRules;
+  private fileTasks = new Map<string, TaskItem[]>();
+  private fileProjectTypes = new Map<string, ProjectType>();
+  private pendingPaths = new Set<string>();
+  private flushDebounced: () => void;
+  private tasksByBlockId = new Map<string, TaskItem>();
+  private listeners = new Set<(changedFiles: Set<string>) => void>();
+  private projectFrontmatter = new Map<string, string>();
+  private scanning?: Promise<void>;
+  private ready: Promise<void>;
+  private resolveReady!: () => void;
   tasks: TaskItem[] = [];
-  onChange?: () => void;
 
-  constructor(app: App) {
+  constructor(app: App, getRules: () => TaskScanRules) {
     this.app = app;
-    this.refreshDebounced = debounce(() => {
-      this.refresh().catch(console.error);
+    this.getRules = getRules;
+    this.ready = new Promise((resolve) => {
+      this.resolveReady = resolve;
+    });
+    this.flushDebounced = debounce(() => {
+      this.flushPending().catch(console.error);
     }, 400);
   }
 
-  triggerRefresh(): void {
-    this.refreshDebounced();
+  onChange(listener: (changedFiles: Set<string>) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async refreshFile(file: TFile): Promise<void> {
+    this.pendingPaths.add(file.path);
+    await this.flushPending();
+  }
+
+  triggerRefresh(file?: TFile): void {
+    if (!file) {
+      this.refresh().catch(console.error);
+      return;
+    }
+    this.pendingPaths.add(file.path);
+    this.flushDebounced();
   }
 
   async refresh(): Promise<void> {
-    const files = this.app.vault.getMarkdownFiles();
-    const tasks: TaskItem[] = [];
+    const scan = this.scanVault();
+    this.scanning = scan;
+    try {
+      await scan;
+    } finally {
+      if (this.scanning === scan) {
+        this.scanning = undefined;
+      }
+      this.resolveReady();
+    }
+  }
+
+  private async scanVault(): Promise<void> {
+    this.pendingPaths.clear();
+    const rules = this.getRules();
+    const files = this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => isPathIndexed(file.path, rules));
+    const next = new Map<string, TaskItem[]>();
+    const nextProjectTypes = new Map<string, ProjectType>();
+    const changed = new Set<string>(this.fileTasks.keys());
 
     for (const file of files) {
       const content = await this.app.vault.read(file);
-      const lines = content.split(/\r?\n/);
+      const { tasks, projectType } = parseFileContent(file, content);
+      if (tasks.length > 0) {
+        next.set(file.path, tasks);
+        changed.add(file.path);
+      }
+      if (projectType) {
+        nextProjectTypes.set(file.path, projectType);
+      }
+    }
 
-      for (let i = 0; i < lines.length; i += 1) {
-        const lineText = lines[i];
-        const match = /^\s*[-*]\s+\[( |x|X)\]\s+(.*)$/.exec(lineText);
-        if (!match) {
-          continue;
-        }
+    this.fileTasks = next;
+    this.fileProjectTypes = nextProjectTypes;
+    this.rebuild(changed);
+  }
 
-        const parsed = parseTaskMetadata(match[2].trim());
-        if (!parsed.text) {
-          continue;
-        }
+  async waitUntilReady(): Promise<void> {
+    await this.ready;
+    await this.scanning;
+  }
 
-        const subitems: TaskSubItem[] = [];
-        const indent = getIndentation(lineText);
-        let j = i + 1;
-        while (j < lines.length) {
-          const nextLine = lines[j];
-          if (!nextLine.trim()) {
-            break;
-          }
-          const nextIndent = getIndentation(nextLine);
-          if (nextIndent <= indent) {
-            break;
-          }
+  handleMetadataChange(file: TFile): void {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const signature = JSON.stringify(
+      PROJECT_FRONTMATTER_KEYS.map((key) => frontmatter?.[key] ?? null)
+    );
+    const previous =
+      this.projectFrontmatter.get(file.path) ??
+      JSON.stringify(PROJECT_FRONTMATTER_KEYS.map(() => null));
+    if (previous === signature) {
+      return;
+    }
+    this.projectFrontmatter.set(file.path, signature);
+    this.rebuild(new Set([file.path]));
+  }
 
-          const subTaskMatch = /^\s*[-*]\s+\[( |x|X)\]\s+(.*)$/.exec(nextLine);
-          if (subTaskMatch) {
-            const subParsed = parseTaskMetadata(subTaskMatch[2].trim());
-            if (subParsed.text) {
-              subitems.push({
-                kind: "task",
-                text: subParsed.text,
-                completed: subTaskMatch[1].toLowerCase() === "x"
-              });
-            }
-            j += 1;
-            continue;
-          }
+  removeFile(path: string): void {
+    this.projectFrontmatter.delete(path);
+    this.pendingPaths.delete(path);
+    const hadProjectType = this.fileProjectTypes.delete(path);
+    if (!this.fileTasks.delete(path) && !hadProjectType) {
+      return;
+    }
+    this.rebuild(new Set([path]));
+  }
 
-          const bulletMatch = /^\s*[-*]\s+(.*)$/.exec(nextLine);
-          if (bulletMatch) {
-            const bulletText = bulletMatch[1].trim();
-            if (bulletText) {
-              subitems.push({ kind: "note", text: bulletText });
-            }
-            j += 1;
-            continue;
-          }
+  renameFile(file: TFile, oldPath: string): void {
+    if (!isPathIndexed(file.path, this.getRules())) {
+      this.removeFile(oldPath);
+      return;
+    }
+    const tasks = this.fileTasks.get(oldPath);
+    const projectType = this.fileProjectTypes.get(oldPath);
+    if (this.pendingPaths.delete(oldPath)) {
+      this.pendingPaths.add(file.path);
+    }
+    if (!tasks && !projectType) {
+      this.triggerRefresh(file);
+      return;
+    }
+    this.fileTasks.delete(oldPath);
+    this.fileProjectTypes.delete(oldPath);
+    if (tasks) {
+      this.fileTasks.set(file.path, tasks);
+    }
+    if (projectType) {
+      this.fileProjectTypes.set(file.path, projectType);
+    }
+    this.rebuild(new Set([oldPath, file.path]));
+  }
 
-          const noteText = nextLine.trim();
-          if (noteText) {
-            subitems.push({ kind: "note", text: noteText });
-          }
-          j += 1;
-        }
+  getProjectType(project: string, files: TFile[]): ProjectType {
+    const linked = this.app.metadataCache.getFirstLinkpathDest(project, "");
+    const candidates = linked ? [linked, ...files] : files;
+    for (const file of candidates) {
+      if (!this.isProjectNote(project, file)) {
+        continue;
+      }
+      const frontmatterType = normalizeProjectType(
+        this.app.metadataCache.getFileCache(file)?.frontmatter?.["project-type"]
+      );
+      const type = frontmatterType ?? this.fileProjectTypes.get(file.path);
+      if (type) {
+        return type;
+      }
+    }
+    return "parallel";
+  }
 
-        if (j > i + 1) {
-          i = j - 1;
-        }
+  getProjectNote(project: string, files: TFile[]): TFile | undefined {
+    const linked = this.app.metadataCache.getFirstLinkpathDest(project, "");
+    const candidates = linked ? [linked, ...files] : files;
+    return candidates.find((file) => this.isProjectNote(project, file));
+  }
 
-        tasks.push({
-          file,
-          line: i + 1,
-          text: parsed.text,
-          completed: match[1].toLowerCase() === "x",
-          project: parsed.project,
-          context: parsed.context,
-          planned: parsed.planned,
-          due: parsed.due,
-          review: parsed.review,
-          tags: parsed.tags,
-          subitems
-        });
+  getProjectInfo(project: string, files: TFile[]): ProjectInfo {
+    const file = this.getProjectNote(project, files);
+    const frontmatter = file
+      ? this.app.metadataCache.getFileCache(file)?.frontmatter
+      : undefined;
+    const reviewInterval = frontmatter?.["review-interval"];
+    return {
+      name: project,
+      file,
+      status: normalizeProjectStatus(frontmatter?.status) ?? "active",
+      reviewInterval: reviewInterval ? String(reviewInterval) : undefined,
+      lastReviewed: normalizeFrontmatterDate(frontmatter?.["last-reviewed"]),
+      nextReview: normalizeFrontmatterDate(frontmatter?.["next-review"]),
+      due: normalizeFrontmatterDate(frontmatter?.due),
+      defer: normalizeFrontmatterDate(frontmatter?.defer)
+    };
+  }
+
+  getProjects(): ProjectInfo[] {
+    const projects = groupTasksByProject(this.app, this.tasks, false);
+    return Array.from(projects, ([project, tasks]) =>
+      this.getProjectInfo(
+        project,
+        Array.from(new Set(tasks.map((task) => task.file)))
+      )
+    );
+  }
+
+  getBlockedTasks(): Set<TaskItem> {
+    const blocked = new Set<TaskItem>();
+    const projects = groupTasksByProject(
+      this.app,
+      this.tasks.filter((task) => !task.parent),
+      false
+    );
+    for (const [project, tasks] of projects) {
+      const files = Array.from(new Set(tasks.map((task) => task.file)));
+      if (this.getProjectType(project, files) !== "sequential") {
+        continue;
+      }
+      const openTasks = this.sortProjectTasks(project, tasks).filter(
+        (task) => !isTaskClosed(task)
+      );
+      for (const task of openTasks.slice(1)) {
+        blocked.add(task);
       }
     }
-
-    this.tasks = tasks;
-    this.onChange?.();
+    for (const task of this.tasks) {
+      if (isTaskClosed(task)) {
+        continue;
+      }
+      if (this.getBlockers(task).some((blocker) => !isTaskClosed(blocker))) {
+        blocked.add(task);
+      }
+    }
+    return blocked;
   }
-}
 
-class FocusTasksView extends ItemView {
-  private index: TaskIndex;
-  private plugin: FocusTasksPlugin;
-  private showCompleted = false;
-  private listEl?: HTMLElement;
-  private selectedSection:
-    | "inbox"
-    | "today"
-    | "projects"
-    | "review"
-    | "tags"
-    | "contexts"
-    | "forecast" = "inbox";
-  private sectionExpanded = new Map<string, boolean>();
-  private expandedTasks = new Set<string>();
-  private selectedTags = new Set<string>();
+  getTaskByBlockId(blockId: string): TaskItem | undefined {
+    return this.tasksByBlockId.get(blockId);
+  }
 
-  constructor(leaf: WorkspaceLeaf, index: TaskIndex, plugin: FocusTasksPlugin) {
-    super(leaf);
-    this.index = index;
-    this.plugin = plugin;
+  getBlockers(task: TaskItem): TaskItem[] {
+    return (task.blockedBy ?? [])
+      .map((blockId) => this.tasksByBlockId.get(blockId))
+      .filter((blocker): blocker is TaskItem => !!blocker);
   }
 
-  getViewType(): string {
-    return VIEW_TYPE;
+  getDependencyIssues(): Map<TaskItem, string> {
+    const issues = new Map<TaskItem, string>();
+    for (const task of this.tasks) {
+      if (!task.blockedBy || task.blockedBy.length === 0) {
+        continue;
+      }
+      const missing = task.blockedBy.filter(
+        (blockId) => !this.tasksByBlockId.has(blockId)
+      );
+      if (missing.length > 0) {
+        issues.set(
+          task,
+          `Okänt beroende: ${missing.map((blockId) => `^${blockId}`).join(", ")}`
+        );
+        continue;
+      }
+      if (this.dependsOn(task, task, new Set())) {
+        issues.set(task, "Cirkulärt beroende");
+      }
+    }
+    return issues;
   }
 
-  getDisplayText(): string {
-    return "FocusTasks";
+  private dependsOn(
+    task: TaskItem,
+    target: TaskItem,
+    visited: Set<TaskItem>
+  ): boolean {
+    for (const blocker of this.getBlockers(task)) {
+      if (blocker === target) {
+        return true;
+      }
+      if (visited.has(blocker)) {
+        continue;
+      }
+      visited.add(blocker);
+      if (this.dependsOn(blocker, target, visited)) {
+        return true;
+      }
+    }
+    return false;
   }
 
-  async onOpen(): Promise<void> {
-    this.containerEl.addClass("focus-tasks-view");
-    this.renderView();
-    this.index.onChange = () => this.renderView();
-    window.setTimeout(() => {
-      this.index.refresh().catch(console.error);
-    }, 1500);
+  sortProjectTasks(project: string, tasks: TaskItem[]): TaskItem[] {
+    const projectNoteTasks = tasks.filter((task) =>
+      this.isProjectNote(project, task.file)
+    );
+    const otherTasks = tasks.filter(
+      (task) => !this.isProjectNote(project, task.file)
+    );
+    return [
+      ...sortTasksByFileOrder(projectNoteTasks),
+      ...sortTasksByFileOrder(otherTasks)
+    ];
   }
 
-  onClose(): void {
-    this.index.onChange = undefined;
+  private isProjectNote(project: string, file: TFile): boolean {
+    const linked = this.app.metadataCache.getFirstLinkpathDest(project, "");
+    return (
+      file === linked ||
+      file.basename === project ||
+      getProjectNames(this.app, file).includes(project)
+    );
   }
 
-  public renderView(): void {
-    const { containerEl } = this;
-    containerEl.empty();
+  private async flushPending(): Promise<void> {
+    await this.scanning;
+    const paths = Array.from(this.pendingPaths);
+    this.pendingPaths.clear();
+    const changed = new Set<string>();
 
-    const header = containerEl.createDiv("focus-tasks-header");
-    header.createEl("div", { text: "FocusTasks" }).addClass("focus-tasks-title");
+    for (const path of paths) {
+      if (await this.reindexFile(path)) {
+        changed.add(path);
+      }
+    }
 
-    const toggleCompleted = header.createEl("button", {
-      text: this.showCompleted ? "Dölj klara" : "Visa klara"
-    });
-    toggleCompleted.addEventListener("click", () => {
-      this.showCompleted = !this.showCompleted;
-      this.renderView();
-    });
+    if (changed.size > 0) {
+      this.rebuild(changed);
+    }
+  }
 
-    const refreshButton = header.createEl("button", {
-      text: "Uppdatera"
-    });
-    refreshButton.addEventListener("click", () => {
-      this.index.refresh().catch(console.error);
-    });
+  private async reindexFile(path: string): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (
+      !(file instanceof TFile) ||
+      file.extension !== "md" ||
+      !isPathIndexed(file.path, this.getRules())
+    ) {
+      const hadProjectType = this.fileProjectTypes.delete(path);
+      return this.fileTasks.delete(path) || hadProjectType;
+    }
+    const content = await this.app.vault.read(file);
+    return this.indexContent(file, content);
+  }
 
-    const layout = containerEl.createDiv("focus-tasks-layout");
-    const sidebar = layout.createDiv("focus-tasks-sidebar");
-    const content = layout.createDiv("focus-tasks-content");
+  private indexContent(file: TFile, content: string): boolean {
+    const previous = this.fileTasks.get(file.path) ?? [];
+    const previousType = this.fileProjectTypes.get(file.path);
+    const { tasks, projectType } = parseFileContent(file, content);
+    if (tasks.length > 0) {
+      this.fileTasks.set(file.path, tasks);
+    } else {
+      this.fileTasks.delete(file.path);
+    }
+    if (projectType) {
+      this.fileProjectTypes.set(file.path, projectType);
+    } else {
+      this.fileProjectTypes.delete(file.path);
+    }
+    return (
+      !areTaskListsEqual(previous, tasks) || previousType !== projectType
+    );
+  }
 
-    const inboxCount = this.index.tasks.filter((task) => {
-      if (!this.showCompleted && task.completed) {
-        return false;
+  private rebuild(changedFiles: Set<string>): void {
+    const tasks: TaskItem[] = [];
+    const tasksByBlockId = new Map<string, TaskItem>();
+    for (const fileTasks of this.fileTasks.values()) {
+      tasks.push(...fileTasks);
+      for (const task of fileTasks) {
+        if (task.blockId && !tasksByBlockId.has(task.blockId)) {
+          tasksByBlockId.set(task.blockId, task);
+        }
       }
-      return !task.project && !task.due && !task.planned;
-    }).length;
+    }
+    this.tasks = tasks;
+    this.tasksByBlockId = tasksByBlockId;
+    for (const listener of this.listeners) {
+      listener(changedFiles);
+    }
+  }
+}
 
-    const todayDate = getLocalDateString();
-    const overdueCount = this.index.tasks.filter((task) => {
-      if (!this.showCompleted && task.completed) {
-        return false;
-      }
-      const plannedDate = parseDate(task.planned);
-      const dueDate = parseDate(task.due);
-      if (dueDate) {
-        return dueDate < todayDate;
-      }
-      if (plannedDate) {
-        return plannedDate < todayDate;
-      }
-      return false;
-    }).length;
+class EditHistory {
+  private app: App;
+  private index: TaskIndex;
+  private undoStack: EditEntry[] = [];
+  private redoStack: EditEntry[] = [];
 
-    const todayCount = this.index.tasks.filter((task) => {
-      if (!this.showCompleted && task.completed) {
-        return false;
+  constructor(app: App, index: TaskIndex) {
+    this.app = app;
+    this.index = index;
+  }
+
+  async track<T>(
+    label: string,
+    files: TFile[],
+    action: () => Promise<T>
+  ): Promise<T> {
+    const before = new Map<TFile, string>();
+    for (const file of files) {
+      if (!before.has(file)) {
+        before.set(file, await this.app.vault.read(file));
       }
-      const plannedDate = parseDate(task.planned);
-      const dueDate = parseDate(task.due);
-      if (plannedDate && dueDate) {
-        return plannedDate <= todayDate && todayDate <= dueDate;
+    }
+    const result = await action();
+    const edits: LineEdit[] = [];
+    for (const [file, content] of before) {
+      edits.push(...diffLines(file, content, await this.app.vault.read(file)));
+    }
+    if (edits.length > 0) {
+      const entry = { label, edits };
+      this.undoStack.push(entry);
+      if (this.undoStack.length > EDIT_HISTORY_LIMIT) {
+        this.undoStack.shift();
       }
-      if (plannedDate && !dueDate) {
-        return plannedDate === todayDate;
+      this.redoStack = [];
+      this.showUndoNotice(entry);
+    }
+    return result;
+  }
+
+  async undo(entry?: EditEntry): Promise<void> {
+    const latest = this.undoStack[this.undoStack.length - 1];
+    if (!latest) {
+      new Notice("Inget att ångra.");
+      return;
+    }
+    if (entry && entry !== latest) {
+      new Notice("Ångra de senare ändringarna först.");
+      return;
+    }
+    if (await this.apply(latest, "undo")) {
+      this.undoStack = this.undoStack.filter((item) => item !== latest);
+      this.redoStack.push(latest);
+      new Notice(`Ångrade: ${latest.label}`);
+    }
+  }
+
+  async redo(): Promise<void> {
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry) {
+      new Notice("Inget att göra om.");
+      return;
+    }
+    if (await this.apply(entry, "redo")) {
+      this.redoStack = this.redoStack.filter((item) => item !== entry);
+      this.undoStack.push(entry);
+      new Notice(`Gjorde om: ${entry.label}`);
+    }
+  }
+
+  private async apply(
+    entry: EditEntry,
+    direction: "undo" | "redo"
+  ): Promise<boolean> {
+    const updates: Array<{ file: TFile; content: string }> = [];
+    const editsByFile = new Map<TFile, LineEdit[]>();
+    for (const edit of entry.edits) {
+      editsByFile.set(edit.file, [
+        ...(editsByFile.get(edit.file) ?? []),
+        edit
+      ]);
+    }
+    for (const [file, edits] of editsByFile) {
+      const exists = this.app.vault.getAbstractFileByPath(file.path) === file;
+      const lines = exists
+        ? (await this.app.vault.read(file)).split(/\r?\n/)
+        : [];
+      const starts = exists ? findLineEdits(lines, edits, direction) : undefined;
+      if (!starts) {
+        new Notice(
+          `Kan inte ${direction === "undo" ? "ångra" : "göra om"} "${entry.label}": ${file.basename} har ändrats sedan dess.`
+        );
+        return false;
       }
-      return false;
-    }).length;
+      for (let i = edits.length - 1; i >= 0; i -= 1) {
+        const [expected, replacement] =
+          direction === "undo"
+            ? [edits[i].after, edits[i].before]
+            : [edits[i].before, edits[i].after];
+        lines.splice(starts[i], expected.length, ...replacement);
+      }
+      updates.push({ file, content: lines.join("\n") });
+    }
+    for (const { file, content } of updates) {
+      await this.app.vault.modify(file, content);
+      this.index.triggerRefresh(file);
+    }
+    return true;
+  }
 
-    const inboxButton = sidebar.createEl("button", {
-      text: `Inbox (${inboxCount})`
-    });
-    inboxButton.addClass("focus-tasks-nav-item");
-    inboxButton.toggleClass("is-active", this.selectedSection === "inbox");
-    inboxButton.addEventListener("click", () => {
-      this.selectedSection = "inbox";
-      this.renderView();
+  private showUndoNotice(entry: EditEntry): void {
+    const notice = new Notice(`${entry.label}.`, 6000);
+    const button = notice.noticeEl.createEl("button", { text: "Ångra" });
+    button.addClass("focus-tasks-undo");
+    button.addEventListener("click", (event) => {
+      event.stopPropagation();
+      notice.hide();
+      this.undo(entry).catch(console.error);
     });
+  }
+}
 
-    const todayButton = sidebar.createEl("button", {
-      text: `Today (Idag ${todayCount}, Överfört ${overdueCount})`
-    });
-    todayButton.addClass("focus-tasks-nav-item");
-    todayButton.toggleClass("is-active", this.selectedSection === "today");
-    todayButton.addEventListener("click", () => {
-      this.selectedSection = "today";
-      this.renderView();
-    });
+class TaskRowRenderer {
+  private app: App;
+  private plugin: FocusTasksPlugin;
+  private index: TaskIndex;
+  private isHidden: (task: TaskItem) => boolean;
+  private onToggle: () => void;
+  blockedTasks = new Set<TaskItem>();
+  dependencyIssues = new Map<TaskItem, string>();
+  expandedTasks = new Set<string>();
+  selectedTasks = new Set<string>();
+  selectable = false;
+  private renderedKeys: string[] = [];
+  private lastSelectedKey?: string;
 
-    const projectsButton = sidebar.createEl("button", {
-      text: "Projekt"
-    });
-    projectsButton.addClass("focus-tasks-nav-item");
-    projectsButton.toggleClass("is-active", this.selectedSection === "projects");
-    projectsButton.addEventListener("click", () => {
-      this.selectedSection = "projects";
-      this.renderView();
+  constructor(
+    app: App,
+    plugin: FocusTasksPlugin,
+    index: TaskIndex,
+    isHidden: (task: TaskItem) => boolean,
+    onToggle: () => void
+  ) {
+    this.app = app;
+    this.plugin = plugin;
+    this.index = index;
+    this.isHidden = isHidden;
+    this.onToggle = onToggle;
+  }
+
+  refreshState(): void {
+    this.blockedTasks = this.index.getBlockedTasks();
+    this.dependencyIssues = this.index.getDependencyIssues();
+    this.renderedKeys = [];
+    const keys = new Set(this.index.tasks.map((task) => getTaskKey(task)));
+    for (const key of Array.from(this.selectedTasks)) {
+      if (!keys.has(key)) {
+        this.selectedTasks.delete(key);
+      }
+    }
+  }
+
+  getSelectedTasks(): TaskItem[] {
+    return this.index.tasks.filter((task) =>
+      this.selectedTasks.has(getTaskKey(task))
+    );
+  }
+
+  clearSelection(): void {
+    this.selectedTasks.clear();
+    this.lastSelectedKey = undefined;
+  }
+
+  private toggleSelection(key: string, extend: boolean): void {
+    const from = this.lastSelectedKey
+      ? this.renderedKeys.indexOf(this.lastSelectedKey)
+      : -1;
+    const to = this.renderedKeys.indexOf(key);
+    if (extend && from !== -1 && to !== -1) {
+      for (const rangeKey of this.renderedKeys.slice(
+        Math.min(from, to),
+        Math.max(from, to) + 1
+      )) {
+        this.selectedTasks.add(rangeKey);
+      }
+    } else if (this.selectedTasks.has(key)) {
+      this.selectedTasks.delete(key);
+    } else {
+      this.selectedTasks.add(key);
+    }
+    this.lastSelectedKey = key;
+  }
+
+  private updateTask(task: TaskItem, updates: TaskUpdates): void {
+    const label =
+      updates.status === "done"
+        ? `Bockade av "${task.text}"`
+        : `Ändrade "${task.text}"`;
+    this.plugin.history
+      .track(label, [task.file], () =>
+        updateTaskInFile(
+          this.app,
+          task,
+          updates,
+          this.plugin.settings.metadataFormat
+        )
+      )
+      .then(() => this.index.triggerRefresh(task.file))
+      .catch(console.error);
+  }
+
+  private openStatusMenu(task: TaskItem, event: MouseEvent): void {
+    const menu = new Menu();
+    for (const status of Object.keys(TASK_STATUS_LABELS) as TaskStatus[]) {
+      menu.addItem((item) =>
+        item
+          .setTitle(`[${TASK_STATUS_SYMBOLS[status]}] ${TASK_STATUS_LABELS[status]}`)
+          .setChecked(task.status === status)
+          .onClick(() => {
+            if (task.status !== status) {
+              this.updateTask(task, { status });
+            }
+          })
+      );
+    }
+    menu.showAtMouseEvent(event);
+  }
+
+  render(
+    task: TaskItem,
+    container: HTMLElement,
+    searchMatch?: TaskSearchMatch
+  ): void {
+    const taskKey = getTaskKey(task);
+    this.renderedKeys.push(taskKey);
+    const row = container.createDiv("focus-tasks-item");
+    row.toggleClass("is-selected", this.selectedTasks.has(taskKey));
+    if (this.selectable) {
+      row.addEventListener("click", (event) => {
+        if (!event.shiftKey && !event.ctrlKey && !event.metaKey) {
+          return;
+        }
+        event.preventDefault();
+        this.toggleSelection(taskKey, event.shiftKey);
+        this.onToggle();
+      });
+    }
+    row.toggleClass("is-complete", task.status === "done");
+    row.addClass(`is-status-${task.status}`);
+    row.addEventListener("contextmenu", (event) => {
+      event.preventDefault();
+      this.openStatusMenu(task, event);
     });
+    row.toggleClass("is-collapsed", !this.expandedTasks.has(taskKey));
+    row.toggleClass("is-overdue", isTaskOverdue(task, getLocalDateString()));
+    row.toggleClass("is-deferred", isTaskDeferred(task, getLocalDateString()));
+    row.toggleClass("is-blocked", this.blockedTasks.has(task));
 
-    const reviewButton = sidebar.createEl("button", {
-      text: "Review"
+    const checkboxInput = row.createEl("input", {
+      type: "checkbox",
     });
-    reviewButton.addClass("focus-tasks-nav-item");
-    reviewButton.toggleClass("is-active", this.selectedSection === "review");
-    reviewButton.addEventListener("click", () => {
-      this.selectedSection = "review";
-      this.renderView();
+    checkboxInput.checked = task.status === "done";
+    checkboxInput.indeterminate =
+      task.status !== "open" && task.status !== "done";
+    checkboxInput.addEventListener("change", () => {
+      this.updateTask(task, {
+        status: checkboxInput.checked ? "done" : "open"
+      });
     });
 
-    const tagsButton = sidebar.createEl("button", {
-      text: "Taggar"
+    const main = row.createDiv("focus-tasks-main");
+
+    const headerRow = main.createDiv("focus-tasks-header-row");
+
+    const textInput = headerRow.createEl("input", {
+      type: "text"
     });
-    tagsButton.addClass("focus-tasks-nav-item");
-    tagsButton.toggleClass("is-active", this.selectedSection === "tags");
-    tagsButton.addEventListener("click", () => {
-      this.selectedSection = "tags";
-      this.renderView();
+    textInput.value = task.text;
+    textInput.addClass("focus-tasks-text-input");
+    textInput.addEventListener("blur", () => {
+      if (textInput.value.trim() === task.text) {
+        return;
+      }
+      this.updateTask(task, { text: textInput.value.trim() });
+    });
+    textInput.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") {
+        textInput.blur();
+      }
     });
 
-    const contextsButton = sidebar.createEl("button", {
-      text: "Kontext"
+    const statusButton = headerRow.createEl("button", {
+      text: TASK_STATUS_LABELS[task.status]
     });
-    contextsButton.addClass("focus-tasks-nav-item");
-    contextsButton.toggleClass("is-active", this.selectedSection === "contexts");
-    contextsButton.addEventListener("click", () => {
-      this.selectedSection = "contexts";
-      this.renderView();
+    statusButton.addClass("focus-tasks-status");
+    statusButton.addEventListener("click", (event) => {
+      this.openStatusMenu(task, event);
     });
 
-    const forecastButton = sidebar.createEl("button", {
-      text: "Forecast"
+    const flagged = isTaskFlagged(task);
+    const flagButton = headerRow.createEl("button", {
+      text: flagged ? "★" : "☆",
+      attr: { "aria-label": flagged ? "Ta bort flagga" : "Flagga" }
     });
-    forecastButton.addClass("focus-tasks-nav-item");
-    forecastButton.toggleClass("is-active", this.selectedSection === "forecast");
-    forecastButton.addEventListener("click", () => {
-      this.selectedSection = "forecast";
-      this.renderView();
+    flagButton.addClass("focus-tasks-flag");
+    flagButton.toggleClass("is-flagged", flagged);
+    flagButton.addEventListener("click", () => {
+      this.updateTask(
+        task,
+        flagged
+          ? {
+              flagged: false,
+              priority:
+                task.priority === "highest" || task.priority === "high"
+                  ? undefined
+                  : task.priority
+            }
+          : { flagged: true }
+      );
     });
 
-    if (this.selectedSection === "inbox") {
-      this.listEl = content.createDiv("focus-tasks-list");
-
-      const tasks = this.index.tasks.filter((task) => {
-        if (!this.showCompleted && task.completed) {
-          return false;
-        }
-        return !task.project && !task.due && !task.planned;
-      });
-
-      if (tasks.length === 0) {
-        this.listEl.createEl("div", { text: "Inga uppgifter ännu." });
-        return;
-      }
+    if (task.children.length > 0) {
+      const doneCount = task.children.filter((child) =>
+        isTaskClosed(child)
+      ).length;
+      headerRow
+        .createEl("span", { text: `${doneCount}/${task.children.length} klara` })
+        .addClass("focus-tasks-progress");
+    }
 
-      for (const task of tasks) {
-        this.renderTaskRow(task, this.listEl);
+    if (searchMatch && searchMatch.hits.length > 0) {
+      const hitsWrap = main.createDiv("focus-tasks-search-hits");
+      for (const hit of searchMatch.hits) {
+        const hitRow = hitsWrap.createDiv("focus-tasks-search-hit");
+        hitRow.createEl("span", { text: `${hit.label}: ` });
+        renderHighlightedText(hitRow, hit.value, hit.indices);
       }
-      return;
     }
 
-    if (this.selectedSection === "projects") {
-      const projects = groupTasksByProject(
-        this.app,
-        this.index.tasks,
-        !this.showCompleted
-      );
+    const invalidDates = getInvalidDateFields(task);
+    row.toggleClass("is-invalid-date", invalidDates.length > 0);
+    if (invalidDates.length > 0) {
+      headerRow
+        .createEl("span", { text: `⚠ Okänt datum: ${invalidDates.join(", ")}` })
+        .addClass("focus-tasks-date-issue");
+    }
 
-      if (projects.size === 0) {
-        content.createEl("div", { text: "Inga projekt ännu." });
-        return;
-      }
+    const dependencyIssue = this.dependencyIssues.get(task);
+    if (dependencyIssue) {
+      headerRow
+        .createEl("span", { text: `⚠ ${dependencyIssue}` })
+        .addClass("focus-tasks-dependency-issue");
+    }
 
-      const overview = content.createDiv("focus-tasks-project-overview");
-      for (const [projectName, tasks] of projects) {
-        const openCount = tasks.filter((task) => !task.completed).length;
-        const nextAction = getNextAction(tasks);
-        const lastReview = getLastReview(tasks);
-        const sectionId = `focus-project-${slugify(projectName)}`;
+    const openBlockers = this.index
+      .getBlockers(task)
+      .filter((blocker) => !isTaskClosed(blocker));
+    if (!isTaskClosed(task) && openBlockers.length > 0) {
+      main
+        .createEl("div", {
+          text: `Väntar på: ${openBlockers.map((blocker) => blocker.text).join(", ")}`
+        })
+        .addClass("focus-tasks-blocked-by");
+    }
 
-        const card = overview.createDiv("focus-tasks-project-card");
-        card.addEventListener("click", () => {
-          const target = content.querySelector(`#${sectionId}`);
-          target?.scrollIntoView({ behavior: "smooth", block: "start" });
-        });
-        card.createEl("div", { text: projectName }).addClass("focus-tasks-project-name");
-        card.createEl("div", { text: `${openCount} öppna` }).addClass("focus-tasks-project-count");
+    const details = main.createDiv("focus-tasks-details");
+    const noteRow = details.createDiv("focus-tasks-note-row");
+    const openButton = noteRow.createEl("button", {
+      text: task.file.basename
+    });
+    openButton.addClass("focus-tasks-file");
+    openButton.addEventListener("click", () => {
+      this.app.workspace.getLeaf(false).openFile(task.file);
+    });
 
-        if (nextAction) {
-          card
-            .createEl("div", { text: `Nästa: ${nextAction}` })
-            .addClass("focus-tasks-project-next");
-        }
+    const moveButton = noteRow.createEl("button", { text: "Flytta till…" });
+    moveButton.addClass("focus-tasks-move");
+    moveButton.addEventListener("click", () => {
+      new TaskMoveModal(this.app, (target) => {
+        this.plugin.history
+          .track(`Flyttade "${task.text}"`, [task.file, target.file], () =>
+            moveTaskToTarget(this.app, task, target)
+          )
+          .then((moved) => {
+            if (moved) {
+              this.index.triggerRefresh(task.file);
+              this.index.triggerRefresh(target.file);
+            }
+          })
+          .catch(console.error);
+      }).open();
+    });
 
-        if (lastReview) {
-          card
-            .createEl("div", { text: `Senast review: ${lastReview}` })
-            .addClass("focus-tasks-project-review");
-        }
-      }
+    if (task.blockId) {
+      noteRow
+        .createEl("span", { text: `^${task.blockId}` })
+        .addClass("focus-tasks-block-id");
+    }
 
-      for (const [projectName, tasks] of projects) {
-        const sorted = sortTasksByDate(tasks);
-        this.renderSection(
-          content,
-          projectName,
-          sorted,
-          `project:${projectName}`,
-          `focus-project-${slugify(projectName)}`
-        );
-      }
-      return;
+    if (task.parent) {
+      noteRow
+        .createEl("span", { text: `Del av: ${task.parent.text}` })
+        .addClass("focus-tasks-parent");
     }
 
-    if (this.selectedSection === "review") {
-      this.listEl = content.createDiv("focus-tasks-list");
-      const cutoff = getLocalDateString(-7);
-      const tasks = this.index.tasks.filter((task) => {
-        if (!this.showCompleted && task.completed) {
-          return false;
-        }
-        const reviewDate = parseDate(task.review);
-        if (!reviewDate) {
-          return true;
-        }
-        return reviewDate <= cutoff;
+    const metaRow = details.createDiv("focus-tasks-meta-row");
+
+    const deferWrap = metaRow.createDiv("focus-tasks-date");
+    deferWrap.createEl("span", { text: "Uppskjuten" });
+    const deferInput = deferWrap.createEl("input", { type: "date" });
+    deferInput.value = task.defer ?? "";
+    deferInput.addEventListener("change", () => {
+      this.updateTask(task, {
+        defer: deferInput.value || undefined
       });
+    });
 
-      if (tasks.length === 0) {
-        this.listEl.createEl("div", { text: "Inga uppgifter för review." });
-        return;
-      }
+    const plannedWrap = metaRow.createDiv("focus-tasks-date");
+    plannedWrap.createEl("span", { text: "Planerad" });
+    const plannedInput = plannedWrap.createEl("input", { type: "date" });
+    plannedInput.value = task.planned ?? "";
+    plannedInput.addEventListener("change", () => {
+      this.updateTask(task, {
+        planned: plannedInput.value || undefined
+      });
+    });
 
-      for (const task of tasks) {
-        this.renderTaskRow(task, this.listEl, true);
-      }
-      return;
+    const dueWrap = metaRow.createDiv("focus-tasks-date");
+    dueWrap.createEl("span", { text: "Due" });
+    const dueInput = dueWrap.createEl("input", { type: "date" });
+    dueInput.value = task.due ?? "";
+    dueInput.addEventListener("change", () => {
+      this.updateTask(task, {
+        due: dueInput.value || undefined
+      });
+    });
+
+    if (task.review) {
+      const reviewWrap = metaRow.createDiv("focus-tasks-date");
+      reviewWrap.createEl("span", { text: "Review" });
+      reviewWrap.createEl("span", { text: task.review });
     }
 
-    if (this.selectedSection === "tags") {
-      const tagSummary = getTagSummary(this.index.tasks, !this.showCompleted);
-      const filterBar = content.createDiv("focus-tasks-tag-filter");
-      filterBar.createEl("div", { text: "Filter" }).addClass("focus-tasks-tag-title");
+    if (task.done) {
+      const doneWrap = metaRow.createDiv("focus-tasks-date");
+      doneWrap.createEl("span", { text: "Klar" });
+      doneWrap.createEl("span", { text: task.done });
+    }
 
-      const selector = filterBar.createDiv("focus-tasks-tag-selector");
-      const inputId = `focus-tags-input-${Date.now()}`;
-      const datalistId = `focus-tags-list-${Date.now()}`;
+    if (task.priority) {
+      const priorityWrap = metaRow.createDiv("focus-tasks-date");
+      priorityWrap.createEl("span", { text: "Prioritet" });
+      priorityWrap.createEl("span", { text: TASK_PRIORITY_LABELS[task.priority] });
+    }
 
-      const input = selector.createEl("input", {
-        type: "text",
-        attr: { placeholder: "Välj tagg", list: datalistId, id: inputId }
-      });
-      input.addClass("focus-tasks-tag-input");
+    if (task.repeat) {
+      const repeatWrap = metaRow.createDiv("focus-tasks-date");
+      repeatWrap.toggleClass("is-invalid", !parseRepeatRule(task.repeat));
+      repeatWrap.createEl("span", { text: "Upprepas" });
+      repeatWrap.createEl("span", { text: task.repeat });
+    }
 
-      const datalist = selector.createEl("datalist", { attr: { id: datalistId } });
-      for (const tag of tagSummary) {
-        datalist.createEl("option", { attr: { value: tag.name } });
+    if (task.tags.length > 0) {
+      const tagsWrap = metaRow.createDiv("focus-tasks-tags");
+      for (const tag of task.tags) {
+        const tagEl = tagsWrap.createEl("span", { text: tag });
+        tagEl.addClass("focus-tasks-tag");
       }
+    }
 
-      const addTag = (value: string): void => {
-        const tag = normalizeTag(value);
-        if (!tag) {
-          input.value = "";
-          return;
-        }
-        if (this.selectedTags.has(tag)) {
-          input.value = "";
-          return;
-        }
-        this.selectedTags.add(tag);
-        input.value = "";
-        this.renderView();
-      };
+    if (task.subitems.length > 0) {
+      const subitemsWrap = details.createDiv("focus-tasks-subitems");
+      for (const item of task.subitems) {
+        const subRow = subitemsWrap.createDiv("focus-tasks-subitem");
+        subRow.createEl("span", { text: "•" }).addClass("focus-tasks-subitem-bullet");
+        subRow.createEl("span", { text: item.text });
+      }
+    }
 
-      input.addEventListener("change", () => {
-        addTag(input.value);
-      });
-      input.addEventListener("keydown", (event) => {
-        if (event.key === "Enter") {
-          event.preventDefault();
-          addTag(input.value);
-        }
-      });
+    const children = task.children.filter(
+      (child) => !this.isHidden(child)
+    );
+    if (children.length > 0) {
+      const childrenWrap = details.createDiv("focus-tasks-children");
+      for (const child of children) {
+        this.render(child, childrenWrap);
+      }
+    }
 
-      const selectedWrap = filterBar.createDiv("focus-tasks-tag-selected");
-      for (const tag of Array.from(this.selectedTags)) {
-        const chip = selectedWrap.createEl("button", { text: tag });
-        chip.addClass("focus-tasks-tag-chip");
-        chip.addEventListener("click", () => {
-          this.selectedTags.delete(tag);
-          input.value = "";
-          this.renderView();
-        });
+    const toggle = row.createEl("button", { text: "▸" });
+    toggle.addClass("focus-tasks-toggle");
+    toggle.addEventListener("click", () => {
+      if (this.expandedTasks.has(taskKey)) {
+        this.expandedTasks.delete(taskKey);
+      } else {
+        this.expandedTasks.add(taskKey);
       }
+      this.onToggle();
+    });
+  }
+}
 
-      const clearButton = filterBar.createEl("button", {
-        text: "Rensa"
-      });
-      clearButton.addClass("focus-tasks-tag-clear");
-      clearButton.addEventListener("click", () => {
-        this.selectedTags.clear();
-        this.renderView();
-      });
+class FocusTasksView extends ItemView {
+  private index: TaskIndex;
+  private plugin: FocusTasksPlugin;
+  private showCompleted = false;
+  private listEl?: HTMLElement;
+  private selectedSection: FocusTasksSection = "inbox";
+  private logbookProject = "";
+  private logbookContext = "";
+  private showDeferred = new Set<string>();
+  private statusFilter = new Map<string, TaskStatus>();
+  private sectionExpanded = new Map<string, boolean>();
+  private selectedTags = new Set<string>();
+  private selectedContext = "";
+  private rows: TaskRowRenderer;
+  private unsubscribe?: () => void;
+  private projectInfos = new Map<string, ProjectInfo>();
+  private projectStatusFilter: ProjectStatus | "" = "";
+  private searchQuery = "";
+  private searchInput?: HTMLInputElement;
+  private renderDebounced = debounce(() => this.renderView(), 200);
 
-      if (tagSummary.length === 0) {
-        filterBar.createEl("div", { text: "Inga taggar." });
-      }
+  constructor(leaf: WorkspaceLeaf, index: TaskIndex, plugin: FocusTasksPlugin) {
+    super(leaf);
+    this.index = index;
+    this.plugin = plugin;
+    this.rows = new TaskRowRenderer(
+      this.app,
+      plugin,
+      index,
+      (task) => this.isHiddenByStatus(task),
+      () => this.renderView()
+    );
+    this.rows.selectable = true;
+  }
 
-      this.listEl = content.createDiv("focus-tasks-list");
-      const tasks = this.index.tasks.filter((task) => {
-        if (!this.showCompleted && task.completed) {
-          return false;
-        }
-        if (task.tags.length === 0) {
-          return false;
-        }
-        if (this.selectedTags.size === 0) {
-          return false;
+  getViewType(): string {
+    return VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "FocusTasks";
+  }
+
+  async onOpen(): Promise<void> {
+    this.containerEl.addClass("focus-tasks-view");
+    this.scope = new Scope(this.app.scope);
+    const bindHistory = (
+      modifiers: Modifier[],
+      key: string,
+      action: () => Promise<void>
+    ) =>
+      this.scope?.register(modifiers, key, (event) => {
+        const target = event.target as HTMLElement | null;
+        if (["INPUT", "TEXTAREA", "SELECT"].includes(target?.tagName ?? "")) {
+          return true;
         }
-        return Array.from(this.selectedTags).every((tag) =>
-          task.tags.includes(tag)
-        );
+        action().catch(console.error);
+        return false;
       });
-
-      if (tasks.length === 0) {
-        this.listEl.createEl("div", { text: "Inga uppgifter matchar." });
-        return;
+    bindHistory(["Mod"], "z", () => this.plugin.history.undo());
+    bindHistory(["Mod", "Shift"], "z", () => this.plugin.history.redo());
+    bindHistory(["Mod"], "y", () => this.plugin.history.redo());
+    this.renderView();
+    this.unsubscribe = this.index.onChange((changedFiles) => {
+      if (changedFiles.size > 0) {
+        this.renderView();
       }
+    });
+  }
 
-      for (const task of tasks) {
-        this.renderTaskRow(task, this.listEl);
-      }
-      return;
-    }
+  onClose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
 
-    if (this.selectedSection === "contexts") {
-      const contexts = groupTasksByContext(this.index.tasks, !this.showCompleted);
-      if (contexts.size === 0) {
-        content.createEl("div", { text: "Inga kontexter ännu." });
-        return;
-      }
+  showSection(section: FocusTasksSection): void {
+    this.selectedSection = section;
+    this.searchQuery = "";
+    this.renderView();
+  }
 
-      for (const [contextName, tasks] of contexts) {
-        const sorted = sortTasksByDate(tasks);
-        this.renderSection(
-          content,
-          contextName,
-          sorted,
-          `context:${contextName}`
-        );
-      }
-      return;
+  public renderView(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+    const perspective = this.getSelectedPerspective();
+    if (this.selectedSection.startsWith("perspective:") && !perspective) {
+      this.selectedSection = "inbox";
     }
+    this.rows.refreshState();
+    this.projectInfos = new Map(
+      this.index.getProjects().map((info) => [info.name, info])
+    );
 
-    if (this.selectedSection === "forecast") {
-      const today = getLocalDateString();
-      const days = 7;
-      const forecast = buildForecastMap(
-        this.index.tasks,
-        today,
-        days,
-        !this.showCompleted
-      );
+    const header = containerEl.createDiv("focus-tasks-header");
+    header.createEl("div", { text: "FocusTasks" }).addClass("focus-tasks-title");
 
-      const overdue = this.index.tasks.filter((task) =>
-        isTaskOverdue(task, today)
+    const searchHadFocus =
+      !!this.searchInput && this.searchInput === document.activeElement;
+    const searchInput = header.createEl("input", {
+      type: "search",
+      value: this.searchQuery,
+      attr: { placeholder: "Sök (p:Kund c:telefon #waiting due:<today)" }
+    });
+    searchInput.addClass("focus-tasks-search");
+    searchInput.addEventListener("input", () => {
+      this.searchQuery = searchInput.value;
+      this.renderDebounced();
+    });
+    this.searchInput = searchInput;
+    if (searchHadFocus) {
+      searchInput.focus();
+      searchInput.setSelectionRange(
+        searchInput.value.length,
+        searchInput.value.length
       );
-      this.renderSection(content, "Överfört", overdue, "forecast-overdue");
+    }
 
-      for (let offset = 0; offset < days; offset += 1) {
-        const date = getLocalDateString(offset);
-        const tasks = forecast.get(date) ?? [];
-        const events = filterEventsForDate(
-          this.plugin.getEventsForDate(date),
-          date
-        );
-        this.renderSection(
-          content,
-          formatForecastTitle(date, offset),
-          tasks,
-          `forecast-${date}`,
-          undefined,
-          events
-        );
+    const toggleCompleted = header.createEl("button", {
+      text: this.showCompleted ? "Dölj klara" : "Visa klara"
+    });
+    toggleCompleted.addEventListener("click", () => {
+      this.showCompleted = !this.showCompleted;
+      this.renderView();
+    });
+
+    if (this.selectedSection !== "logbook" || this.searchQuery.trim()) {
+      const section = this.selectedSection;
+      const statusSelect = header.createEl("select");
+      statusSelect.addClass("dropdown");
+      statusSelect.createEl("option", { text: "Alla statusar", value: "" });
+      for (const status of Object.keys(TASK_STATUS_LABELS) as TaskStatus[]) {
+        statusSelect.createEl("option", {
+          text: TASK_STATUS_LABELS[status],
+          value: status
+        });
       }
-      return;
+      statusSelect.value = this.statusFilter.get(section) ?? "";
+      statusSelect.addEventListener("change", () => {
+        if (statusSelect.value) {
+          this.statusFilter.set(section, statusSelect.value as TaskStatus);
+        } else {
+          this.statusFilter.delete(section);
+        }
+        this.renderView();
+      });
     }
 
-    const today = getLocalDateString();
-    const tomorrow = getLocalDateString(1);
+    if (
+      ["inbox", "flagged", "projects", "contexts", "tags"].includes(
+        this.selectedSection
+      )
+    ) {
+      const section = this.selectedSection;
+      const toggleDeferred = header.createEl("button", {
+        text: this.showDeferred.has(section)
+          ? "Dölj uppskjutna"
+          : "Visa uppskjutna"
+      });
+      toggleDeferred.addEventListener("click", () => {
+        if (this.showDeferred.has(section)) {
+          this.showDeferred.delete(section);
+        } else {
+          this.showDeferred.add(section);
+        }
+        this.renderView();
+      });
+    }
+
+    const refreshButton = header.createEl("button", {
+      text: "Uppdatera"
+    });
+    refreshButton.addEventListener("click", () => {
+      this.index.refresh().catch(console.error);
+    });
+
+    if (this.rows.selectedTasks.size > 0) {
+      this.renderBulkActions(containerEl);
+    }
 
-    const overdue = this.index.tasks.filter((task) => {
-      if (!this.showCompleted && task.completed) {
+    const layout = containerEl.createDiv("focus-tasks-layout");
+    const sidebar = layout.createDiv("focus-tasks-sidebar");
+    const content = layout.createDiv("focus-tasks-content");
+
+    const todayDate = getLocalDateString();
+    const topLevelTasks = this.index.tasks.filter((task) => !task.parent);
+    const scheduledTasks = this.index.tasks.filter(
+      (task) => !this.isInInactiveProject(task)
+    );
+    const inboxCount = topLevelTasks.filter((task) => {
+      if (this.isHiddenByStatus(task, "inbox")) {
+        return false;
+      }
+      if (this.isHiddenDeferred(task, "inbox")) {
+        return false;
+      }
+      return task.projects.length === 0 && !task.due && !task.planned;
+    }).length;
+
+    const flaggedCount = this.index.tasks.filter(
+      (task) =>
+        isTaskFlagged(task) &&
+        !this.isHiddenByStatus(task, "flagged") &&
+        !this.isHiddenDeferred(task, "flagged")
+    ).length;
+
+    const availableCount = topLevelTasks.filter((task) =>
+      isTaskAvailable(task, todayDate, this.rows.blockedTasks)
+    ).length;
+
+    const overdueCount = scheduledTasks.filter((task) => {
+      if (this.isHiddenByStatus(task, "today")) {
         return false;
       }
       const plannedDate = parseDate(task.planned);
       const dueDate = parseDate(task.due);
       if (dueDate) {
-        return dueDate < today;
+        return dueDate < todayDate;
       }
       if (plannedDate) {
-        return plannedDate < today;
+        return plannedDate < todayDate;
       }
       return false;
-    });
+    }).length;
 
-    const plannedToday = this.index.tasks.filter((task) => {
-      if (!this.showCompleted && task.completed) {
+    const todayCount = scheduledTasks.filter((task) => {
+      if (this.isHiddenByStatus(task, "today")) {
         return false;
       }
       const plannedDate = parseDate(task.planned);
       const dueDate = parseDate(task.due);
       if (plannedDate && dueDate) {
-        return plannedDate <= today && today <= dueDate;
+        return plannedDate <= todayDate && todayDate <= dueDate;
       }
       if (plannedDate && !dueDate) {
-        return plannedDate === today;
+        return plannedDate === todayDate;
       }
       return false;
+    }).length;
+
+    const inboxButton = sidebar.createEl("button", {
+      text: `Inbox (${inboxCount})`
+    });
+    inboxButton.addClass("focus-tasks-nav-item");
+    inboxButton.toggleClass("is-active", this.selectedSection === "inbox");
+    inboxButton.addEventListener("click", () => {
+      this.selectedSection = "inbox";
+      this.renderView();
     });
 
-    const plannedTomorrow = this.index.tasks.filter((task) => {
-      if (!this.showCompleted && task.completed) {
-        return false;
-      }
-      const plannedDate = parseDate(task.planned);
-      return plannedDate === tomorrow;
+    const todayButton = sidebar.createEl("button", {
+      text: `Today (Idag ${todayCount}, Överfört ${overdueCount})`
+    });
+    todayButton.addClass("focus-tasks-nav-item");
+    todayButton.toggleClass("is-active", this.selectedSection === "today");
+    todayButton.addEventListener("click", () => {
+      this.selectedSection = "today";
+      this.renderView();
     });
 
-    const todayEvents = filterEventsForDate(
-      this.plugin.getEventsForDate(today),
-      today
-    );
-    if (todayEvents.length > 0) {
-      this.renderEventList(content, "Kalender idag", todayEvents);
-    }
+    const flaggedButton = sidebar.createEl("button", {
+      text: `Flaggade (${flaggedCount})`
+    });
+    flaggedButton.addClass("focus-tasks-nav-item");
+    flaggedButton.toggleClass("is-active", this.selectedSection === "flagged");
+    flaggedButton.addEventListener("click", () => {
+      this.selectedSection = "flagged";
+      this.renderView();
+    });
 
-    this.renderSection(content, "Överfört", overdue, "overdue");
-    this.renderSection(content, "Planerat idag", plannedToday, "planned-today");
-    this.renderSection(
-      content,
-      "Planerat imorgon",
-      plannedTomorrow,
-      "planned-tomorrow"
+    const availableButton = sidebar.createEl("button", {
+      text: `Tillgängliga (${availableCount})`
+    });
+    availableButton.addClass("focus-tasks-nav-item");
+    availableButton.toggleClass(
+      "is-active",
+      this.selectedSection === "available"
     );
-  }
-
-  private renderSection(
-    container: HTMLElement,
-    title: string,
-    tasks: TaskItem[],
-    key: string,
-    sectionId?: string,
-    events?: CalendarEvent[]
-  ): void {
-    const section = container.createDiv("focus-tasks-section");
-    if (sectionId) {
-      section.setAttribute("id", sectionId);
-    }
-    const header = section.createDiv("focus-tasks-section-header");
-    header.createEl("span", { text: title });
+    availableButton.addEventListener("click", () => {
+      this.selectedSection = "available";
+      this.renderView();
+    });
 
-    const isExpanded = this.sectionExpanded.get(key) ?? true;
-    const toggle = header.createEl("button", {
-      text: isExpanded ? "Dölj" : "Visa"
+    const projectsButton = sidebar.createEl("button", {
+      text: "Projekt"
     });
-    toggle.addClass("focus-tasks-section-toggle");
-    toggle.addEventListener("click", () => {
-      this.sectionExpanded.set(key, !isExpanded);
+    projectsButton.addClass("focus-tasks-nav-item");
+    projectsButton.toggleClass("is-active", this.selectedSection === "projects");
+    projectsButton.addEventListener("click", () => {
+      this.selectedSection = "projects";
       this.renderView();
     });
 
-    if (!isExpanded) {
-      return;
-    }
-
-    if (events && events.length > 0) {
-      this.renderEventList(section, "Kalender", events);
-    }
-
-    const list = section.createDiv("focus-tasks-list");
-    if (tasks.length === 0) {
-      list.createEl("div", { text: "Inga uppgifter." });
-      return;
-    }
-
-    for (const task of tasks) {
-      this.renderTaskRow(task, list);
-    }
-  }
-
-  private renderTaskRow(
-    task: TaskItem,
-    container: HTMLElement,
-    showReviewButton = false
-  ): void {
-    const taskKey = `${task.file.path}:${task.line}`;
-    const row = container.createDiv("focus-tasks-item");
-    row.toggleClass("is-complete", task.completed);
-    row.toggleClass("is-collapsed", !this.expandedTasks.has(taskKey));
-    row.toggleClass("is-overdue", isTaskOverdue(task, getLocalDateString()));
-
-    const checkboxInput = row.createEl("input", {
-      type: "checkbox",
+    const reviewCount = this.getProjectReviews(topLevelTasks).filter(
+      (review) => review.nextReview <= todayDate
+    ).length;
+    const reviewButton = sidebar.createEl("button", {
+      text: `Review (${reviewCount})`
     });
-    checkboxInput.checked = task.completed;
-    checkboxInput.addEventListener("change", () => {
-      updateTaskInFile(this.app, task, {
-        completed: checkboxInput.checked
-      })
-        .then(() => this.index.triggerRefresh())
-        .catch(console.error);
+    reviewButton.addClass("focus-tasks-nav-item");
+    reviewButton.toggleClass("is-active", this.selectedSection === "review");
+    reviewButton.addEventListener("click", () => {
+      this.selectedSection = "review";
+      this.renderView();
     });
 
-    const main = row.createDiv("focus-tasks-main");
-
-    const headerRow = main.createDiv("focus-tasks-header-row");
+    const tagsButton = sidebar.createEl("button", {
+      text: "Taggar"
+    });
+    tagsButton.addClass("focus-tasks-nav-item");
+    tagsButton.toggleClass("is-active", this.selectedSection === "tags");
+    tagsButton.addEventListener("click", () => {
+      this.selectedSection = "tags";
+      this.renderView();
+    });
 
-    const textInput = headerRow.createEl("input", {
-      type: "text"
+    const contextsButton = sidebar.createEl("button", {
+      text: "Kontext"
     });
-    textInput.value = task.text;
-    textInput.addClass("focus-tasks-text-input");
-    textInput.addEventListener("blur", () => {
-      if (textInput.value.trim() === task.text) {
-        return;
-      }
-      updateTaskInFile(this.app, task, { text: textInput.value.trim() })
-        .then(() => this.index.triggerRefresh())
-        .catch(console.error);
+    contextsButton.addClass("focus-tasks-nav-item");
+    contextsButton.toggleClass("is-active", this.selectedSection === "contexts");
+    contextsButton.addEventListener("click", () => {
+      this.selectedSection = "contexts";
+      this.renderView();
     });
-    textInput.addEventListener("keydown", (event) => {
-      if (event.key === "Enter") {
-        textInput.blur();
-      }
+
+    const forecastButton = sidebar.createEl("button", {
+      text: "Forecast"
+    });
+    forecastButton.addClass("focus-tasks-nav-item");
+    forecastButton.toggleClass("is-active", this.selectedSection === "forecast");
+    forecastButton.addEventListener("click", () => {
+      this.selectedSection = "forecast";
+      this.renderView();
     });
 
-    const details = main.createDiv("focus-tasks-details");
-    const noteRow = details.createDiv("focus-tasks-note-row");
-    const openButton = noteRow.createEl("button", {
-      text: task.file.basename
+    const logbookButton = sidebar.createEl("button", {
+      text: "Klart"
     });
-    openButton.addClass("focus-tasks-file");
-    openButton.addEventListener("click", () => {
-      this.app.workspace.getLeaf(false).openFile(task.file);
+    logbookButton.addClass("focus-tasks-nav-item");
+    logbookButton.toggleClass("is-active", this.selectedSection === "logbook");
+    logbookButton.addEventListener("click", () => {
+      this.selectedSection = "logbook";
+      this.renderView();
     });
 
-    if (showReviewButton) {
-      const reviewedButton = noteRow.createEl("button", { text: "Reviewed" });
-      reviewedButton.addClass("focus-tasks-reviewed");
-      reviewedButton.addEventListener("click", () => {
-        updateTaskInFile(this.app, task, {
-          review: getLocalDateString()
-        })
-          .then(() => this.index.triggerRefresh())
-          .catch(console.error);
+    for (const custom of this.plugin.settings.perspectives) {
+      const section = `perspective:${custom.id}` as const;
+      const result = this.getPerspectiveTasks(custom);
+      const customButton = sidebar.createEl("button", {
+        text: `${custom.name || "Perspektiv"} (${
+          result.error ? "⚠" : result.tasks.length
+        })`
+      });
+      customButton.addClass("focus-tasks-nav-item");
+      customButton.toggleClass("is-active", this.selectedSection === section);
+      customButton.addEventListener("click", () => {
+        this.selectedSection = section;
+        this.renderView();
       });
     }
 
-    const metaRow = details.createDiv("focus-tasks-meta-row");
-
-    const plannedWrap = metaRow.createDiv("focus-tasks-date");
-    plannedWrap.createEl("span", { text: "Planerad" });
-    const plannedInput = plannedWrap.createEl("input", { type: "date" });
-    plannedInput.value = task.planned ?? "";
-    plannedInput.addEventListener("change", () => {
-      updateTaskInFile(this.app, task, {
-        planned: plannedInput.value || undefined
-      })
-        .then(() => this.index.triggerRefresh())
-        .catch(console.error);
-    });
+    if (this.searchQuery.trim()) {
+      this.renderSearchResults(content);
+      return;
+    }
 
-    const dueWrap = metaRow.createDiv("focus-tasks-date");
-    dueWrap.createEl("span", { text: "Due" });
-    const dueInput = dueWrap.createEl("input", { type: "date" });
-    dueInput.value = task.due ?? "";
-    dueInput.addEventListener("change", () => {
-      updateTaskInFile(this.app, task, {
-        due: dueInput.value || undefined
-      })
-        .then(() => this.index.triggerRefresh())
-        .catch(console.error);
-    });
+    if (this.selectedSection === "logbook") {
+      this.renderLogbook(content);
+      return;
+    }
 
-    if (task.review) {
-      const reviewWrap = metaRow.createDiv("focus-tasks-date");
-      reviewWrap.createEl("span", { text: "Review" });
-      reviewWrap.createEl("span", { text: task.review });
+    if (perspective) {
+      this.renderPerspective(content, perspective);
+      return;
     }
 
-    if (task.tags.length > 0) {
-      const tagsWrap = metaRow.createDiv("focus-tasks-tags");
-      for (const tag of task.tags) {
-        const tagEl = tagsWrap.createEl("span", { text: tag });
-        tagEl.addClass("focus-tasks-tag");
+    if (this.selectedSection === "inbox") {
+      this.listEl = content.createDiv("focus-tasks-list");
+
+      const tasks = topLevelTasks.filter((task) => {
+        if (this.isHiddenByStatus(task)) {
+          return false;
+        }
+        if (this.isHiddenDeferred(task, "inbox")) {
+          return false;
+        }
+        return task.projects.length === 0 && !task.due && !task.planned;
+      });
+
+      if (tasks.length === 0) {
+        this.listEl.createEl("div", { text: "Inga uppgifter ännu." });
+        return;
+      }
+
+      for (const task of tasks) {
+        this.rows.render(task, this.listEl);
       }
+      return;
     }
 
-    if (task.subitems.length > 0) {
-      const subitemsWrap = details.createDiv("focus-tasks-subitems");
-      for (const item of task.subitems) {
-        const subRow = subitemsWrap.createDiv("focus-tasks-subitem");
-        if (item.kind === "task") {
-          subRow.createEl("input", {
-            type: "checkbox",
-            attr: { disabled: "true" }
-          }).checked = item.completed ?? false;
-          subRow.createEl("span", { text: item.text });
-        } else {
-          subRow.createEl("span", { text: "•" }).addClass("focus-tasks-subitem-bullet");
-          subRow.createEl("span", { text: item.text });
+    if (this.selectedSection === "flagged") {
+      const flagged = sortTasksByDate(
+        this.index.tasks.filter(
+          (task) =>
+            isTaskFlagged(task) &&
+            !this.isHiddenByStatus(task) &&
+            !this.isHiddenDeferred(task, "flagged")
+        )
+      );
+      const dueState = (task: TaskItem): string => {
+        const dueDate = parseDate(task.due);
+        if (!dueDate) {
+          return "none";
         }
+        return dueDate < todayDate
+          ? "overdue"
+          : dueDate === todayDate
+          ? "today"
+          : "upcoming";
+      };
+      const groups: Array<[string, string]> = [
+        ["overdue", "Försenade"],
+        ["today", "Förfaller idag"],
+        ["upcoming", "Kommande"],
+        ["none", "Utan förfallodatum"]
+      ];
+      for (const [state, title] of groups) {
+        this.renderSection(
+          content,
+          title,
+          flagged.filter((task) => dueState(task) === state),
+          `flagged-${state}`
+        );
       }
+      return;
     }
 
-    const toggle = row.createEl("button", { text: "▸" });
-    toggle.addClass("focus-tasks-toggle");
-    toggle.addEventListener("click", () => {
-      if (this.expandedTasks.has(taskKey)) {
-        this.expandedTasks.delete(taskKey);
-      } else {
-        this.expandedTasks.add(taskKey);
-      }
-      this.renderView();
-    });
-  }
+    if (this.selectedSection === "available") {
+      this.listEl = content.createDiv("focus-tasks-list");
+      const tasks = sortTasksByDate(
+        topLevelTasks.filter((task) =>
+          isTaskAvailable(task, todayDate, this.rows.blockedTasks)
+        )
+      );
 
-  private renderEventList(
-    container: HTMLElement,
-    title: string,
-    events: CalendarEvent[]
-  ): void {
-    const wrapper = container.createDiv("focus-tasks-events");
-    const header = wrapper.createDiv("focus-tasks-events-header");
-    header.createEl("span", { text: title });
+      if (tasks.length === 0) {
+        this.listEl.createEl("div", { text: "Inga tillgängliga uppgifter." });
+        return;
+      }
 
-    const list = wrapper.createDiv("focus-tasks-events-list");
-    for (const event of events) {
-      const row = list.createDiv("focus-tasks-event");
-      const timeLabel = event.allDay
-        ? "Heldag"
-        : event.startTime && event.endTime
-        ? `${event.startTime} - ${event.endTime}`
-        : event.startTime ?? "";
-      const calendarLabel = event.calendarName
-        ? ` (${event.calendarName})`
-        : "";
-      row.createEl("span", { text: timeLabel }).addClass("focus-tasks-event-time");
-      row
-        .createEl("span", { text: `${event.title}${calendarLabel} (${event.date})` })
-        .addClass("focus-tasks-event-title");
-      if (event.location) {
-        row.createEl("span", { text: event.location }).addClass("focus-tasks-event-location");
+      for (const task of tasks) {
+        this.rows.render(task, this.listEl);
       }
+      return;
     }
-  }
-}
-
-export default class FocusTasksPlugin extends Plugin {
-  private index!: TaskIndex;
-  public settings: FocusTasksSettings = DEFAULT_SETTINGS;
-  private calendarEvents = new Map<string, CalendarEvent[]>();
-  private calendarInterval?: number;
-  private calendarLastRefresh?: string;
-  private calendarLastError?: string;
-  private calendarSuccessCount = 0;
-  private calendarFailCount = 0;
-  private calendarEventCount = 0;
 
-  async onload(): Promise<void> {
-    this.index = new TaskIndex(this.app);
-    await this.loadSettings();
+    if (this.selectedSection === "projects") {
+      const projects = groupTasksByProject(
+        this.app,
+        topLevelTasks.filter(
+          (task) =>
+            !this.isHiddenByStatus(task) &&
+            !this.isHiddenDeferred(task, "projects")
+        ),
+        false
+      );
 
-    this.registerView(VIEW_TYPE, (leaf) =>
-      new FocusTasksView(leaf, this.index, this)
-    );
-
-    this.addSettingTab(new FocusTasksSettingTab(this.app, this));
-
-    this.app.workspace.onLayoutReady(() => {
-      this.index.refresh().catch(console.error);
-    });
+      const statusSelect = content.createEl("select");
+      statusSelect.addClass("dropdown");
+      statusSelect.addClass("focus-tasks-project-status-filter");
+      statusSelect.createEl("option", { text: "Alla projektstatusar", value: "" });
+      for (const status of Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[]) {
+        statusSelect.createEl("option", {
+          text: PROJECT_STATUS_LABELS[status],
+          value: status
+        });
+      }
+      statusSelect.value = this.projectStatusFilter;
+      statusSelect.addEventListener("change", () => {
+        this.projectStatusFilter = statusSelect.value as ProjectStatus | "";
+        this.renderView();
+      });
 
-    this.addRibbonIcon("check-square", "FocusTasks", () => {
-      this.activateView().catch(console.error);
-    });
+      const statusOf = (projectName: string): ProjectStatus =>
+        this.projectInfos.get(projectName)?.status ?? "active";
+      const statusOrder = Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[];
+      const visibleProjects = Array.from(projects)
+        .filter(
+          ([projectName]) =>
+            !this.projectStatusFilter ||
+            statusOf(projectName) === this.projectStatusFilter
+        )
+        .sort(
+          ([a], [b]) =>
+            statusOrder.indexOf(statusOf(a)) - statusOrder.indexOf(statusOf(b))
+        );
 
-    this.addCommand({
-      id: "focus-tasks-open",
-      name: "Open FocusTasks",
-      callback: () => this.activateView()
-    });
+      if (visibleProjects.length === 0) {
+        content.createEl("div", { text: "Inga projekt ännu." });
+        return;
+      }
 
-    this.addCommand({
-      id: "focus-tasks-edit-task",
-      name: "Edit task metadata",
-      editorCallback: (editor) => {
-        const file = this.app.workspace.getActiveFile();
-        if (!file) {
-          new Notice("Ingen fil är öppen.");
-          return;
-        }
-        const cursorLine = editor.getCursor().line;
-        const targetLine = findNearestTaskLine(editor, cursorLine);
-        if (targetLine === undefined) {
-          new Notice("Ingen uppgift hittades på raden.");
-          return;
+      let overview: HTMLElement | undefined;
+      let overviewStatus: ProjectStatus | undefined;
+      for (const [projectName, tasks] of visibleProjects) {
+        const info = this.projectInfos.get(projectName);
+        const status = statusOf(projectName);
+        if (!overview || overviewStatus !== status) {
+          const count = visibleProjects.filter(
+            ([name]) => statusOf(name) === status
+          ).length;
+          content
+            .createEl("div", { text: `${PROJECT_STATUS_LABELS[status]} (${count})` })
+            .addClass("focus-tasks-project-group");
+          overview = content.createDiv("focus-tasks-project-overview");
+          overviewStatus = status;
         }
-        const taskText = editor.getLine(targetLine).trim();
-        const modal = new TaskEditModal(
-          this.app,
-          file,
-          targetLine + 1,
-          taskText,
-          () => this.index.triggerRefresh()
+        const openCount = tasks.filter((task) => !isTaskClosed(task)).length;
+        const nextAction = getNextAction(tasks, this.rows.blockedTasks);
+        const projectType = this.index.getProjectType(
+          projectName,
+          Array.from(new Set(tasks.map((task) => task.file)))
         );
-        modal.open();
-      }
-    });
+        const lastReview = info?.lastReviewed ?? getLastReview(tasks);
+        const sectionId = `focus-project-${slugify(projectName)}`;
 
-    this.addCommand({
-      id: "focus-tasks-ocr-image",
-      name: "Convert handwriting image to markdown",
-      editorCallback: (editor) => {
-        if ((this.app as any).isMobile) {
-          new Notice("OCR stöds inte på mobil.");
-          return;
+        const card = overview.createDiv("focus-tasks-project-card");
+        card.addClass(`is-project-${status}`);
+        card.addEventListener("click", () => {
+          const target = content.querySelector(`#${sectionId}`);
+          target?.scrollIntoView({ behavior: "smooth", block: "start" });
+        });
+        card.createEl("div", { text: projectName }).addClass("focus-tasks-project-name");
+        card.createEl("div", { text: `${openCount} öppna` }).addClass("focus-tasks-project-count");
+        if (projectType === "sequential") {
+          card
+            .createEl("div", { text: "Sekventiellt" })
+            .addClass("focus-tasks-project-type");
         }
 
-        let execFile: typeof import("child_process").execFile;
-        let pathModule: typeof import("path");
-        try {
-          execFile = require("child_process").execFile;
-          pathModule = require("path");
-        } catch (error) {
-          console.error("OCR requires Node.js APIs", error);
-          new Notice("OCR kräver desktop‑klienten.");
-          return;
+        if (nextAction) {
+          card
+            .createEl("div", { text: `Nästa: ${nextAction}` })
+            .addClass("focus-tasks-project-next");
         }
 
-        const file = this.app.workspace.getActiveFile();
-        if (!file) {
-          new Notice("Ingen fil är öppen.");
-          return;
+        if (info?.defer) {
+          card
+            .createEl("div", { text: `Uppskjutet till: ${info.defer}` })
+            .addClass("focus-tasks-project-review");
         }
-        const line = editor.getCursor().line;
-        const lineText = editor.getLine(line);
-        const imagePath = extractImagePath(lineText);
-        if (!imagePath) {
-          new Notice("Ingen bild hittades på raden.");
-          return;
+
+        if (info?.due) {
+          card
+            .createEl("div", { text: `Due: ${info.due}` })
+            .addClass("focus-tasks-project-review");
         }
-        const basePath = this.app.vault.adapter.getBasePath();
-        const resolved = this.app.metadataCache.getFirstLinkpathDest(
-          imagePath,
-          file.path
-        );
-        const resolvedPath = resolved ? resolved.path : imagePath;
-        const absolutePath = pathModule.join(basePath, resolvedPath);
-        const scriptPath = pathModule.join(
-          basePath,
-          ".obsidian",
-          "plugins",
-          "FocusTasks",
-          "scripts",
-          "handwriting_ocr.py"
-        );
 
-        execFile(
-          this.settings.pythonPath,
-          [scriptPath, absolutePath, this.settings.ocrProvider],
-          {
-            env: {
-              ...process.env,
-              TESSERACT_CMD: this.settings.tesseractPath || process.env.TESSERACT_CMD,
-              GOOGLE_OCR_KEY: this.settings.googleApiKey || process.env.GOOGLE_OCR_KEY,
-              OPENAI_API_KEY: this.settings.openaiApiKey || process.env.OPENAI_API_KEY,
-              OPENAI_MODEL: this.settings.openaiModel || process.env.OPENAI_MODEL
-            }
-          },
-          (error, stdout, stderr) => {
-            if (error) {
-              console.error(stderr || error.message);
-              new Notice("OCR misslyckades. Kontrollera python/beroenden.");
-              return;
-            }
-            const output = stdout.trim();
-            if (!output) {
-              new Notice("Ingen text hittades.");
-              return;
+        if (lastReview) {
+          card
+            .createEl("div", { text: `Senast review: ${lastReview}` })
+            .addClass("focus-tasks-project-review");
+        }
+
+        if (info?.file) {
+          const actions = card.createDiv("focus-tasks-project-actions");
+          for (const target of statusOrder) {
+            if (target === status) {
+              continue;
             }
-            editor.replaceRange(`\n\n${output}\n`, {
-              line: line + 1,
-              ch: 0
+            const button = actions.createEl("button", {
+              text: PROJECT_STATUS_ACTIONS[target]
+            });
+            button.addEventListener("click", (event) => {
+              event.stopPropagation();
+              this.setProjectStatus(info, target);
             });
           }
-        );
+        }
       }
-    });
-
-    this.registerEvent(
-      this.app.vault.on("modify", (file) => this.onFileChange(file))
-    );
-    this.registerEvent(
-      this.app.vault.on("delete", (file) => this.onFileChange(file))
-    );
-    this.registerEvent(
-      this.app.vault.on("rename", (file) => this.onFileChange(file))
-    );
 
-    await this.index.refresh();
-    await this.refreshCalendars();
-    this.calendarInterval = window.setInterval(
-      () => this.refreshCalendars(),
-      5 * 60 * 1000
-    );
-  }
+      for (const [projectName, tasks] of visibleProjects) {
+        const projectType = this.index.getProjectType(
+          projectName,
+          Array.from(new Set(tasks.map((task) => task.file)))
+        );
+        const sorted =
+          projectType === "sequential"
+            ? this.index.sortProjectTasks(projectName, tasks)
+            : sortTasksByDate(tasks);
+        this.renderSection(
+          content,
+          projectName,
+          sorted,
+          `project:${projectName}`,
+          `focus-project-${slugify(projectName)}`
+        );
+      }
+      return;
+    }
 
-  onunload(): void {
-    this.app.workspace.detachLeavesOfType(VIEW_TYPE);
-    if (this.calendarInterval) {
-      window.clearInterval(this.calendarInterval);
+    if (this.selectedSection === "review") {
+      this.renderReview(content, topLevelTasks);
+      return;
     }
-  }
 
-  getEventsForDate(date: string): CalendarEvent[] {
-    return this.calendarEvents.get(date) ?? [];
-  }
+    if (this.selectedSection === "tags") {
+      const tagTree = getHierarchyTree(
+        this.index.tasks.filter((task) => !this.isHiddenByStatus(task)),
+        "tag"
+      );
+      const filterBar = content.createDiv("focus-tasks-tag-filter");
+      filterBar.createEl("div", { text: "Filter" }).addClass("focus-tasks-tag-title");
 
-  getCalendarStatus(): { lastRefresh?: string; lastError?: string } {
-    return {
-      lastRefresh: this.calendarLastRefresh,
-      lastError: this.calendarLastError
-    };
-  }
+      const selector = filterBar.createDiv("focus-tasks-tag-selector");
+      const inputId = `focus-tags-input-${Date.now()}`;
+      const datalistId = `focus-tags-list-${Date.now()}`;
 
-  getCalendarStats(): { success: number; failed: number } {
-    return {
-      success: this.calendarSuccessCount,
-      failed: this.calendarFailCount
-    };
-  }
+      const input = selector.createEl("input", {
+        type: "text",
+        attr: { placeholder: "Välj tagg", list: datalistId, id: inputId }
+      });
+      input.addClass("focus-tasks-tag-input");
 
-  getCalendarEventCount(): number {
-    return this.calendarEventCount;
-  }
+      const datalist = selector.createEl("datalist", { attr: { id: datalistId } });
+      for (const tag of flattenHierarchy(tagTree)) {
+        datalist.createEl("option", { attr: { value: tag.path } });
+      }
 
-  async loadSettings(): Promise<void> {
-    const data = (await this.loadData()) as Partial<FocusTasksSettings> & {
-      calendarUrls?: string[];
-    };
+      const addTag = (value: string): void => {
+        const tag = normalizeTag(value);
+        if (!tag) {
+          input.value = "";
+          return;
+        }
+        if (this.selectedTags.has(tag)) {
+          input.value = "";
+          return;
+        }
+        this.selectedTags.add(tag);
+        input.value = "";
+        this.renderView();
+      };
 
-    const sources = data.calendarSources ??
-      (data.calendarUrls
-        ? data.calendarUrls.map((url) => ({ name: "", url }))
-        : undefined);
+      input.addEventListener("change", () => {
+        addTag(input.value);
+      });
+      input.addEventListener("keydown", (event) => {
+        if (event.key === "Enter") {
+          event.preventDefault();
+          addTag(input.value);
+        }
+      });
 
-    this.settings = {
-      calendarSources: sources ?? DEFAULT_SETTINGS.calendarSources,
-      calendarRangeDays:
-        data.calendarRangeDays ?? DEFAULT_SETTINGS.calendarRangeDays,
-      pythonPath: data.pythonPath ?? DEFAULT_SETTINGS.pythonPath,
-      tesseractPath: data.tesseractPath ?? DEFAULT_SETTINGS.tesseractPath,
-      ocrProvider: data.ocrProvider ?? DEFAULT_SETTINGS.ocrProvider,
-      googleApiKey: data.googleApiKey ?? DEFAULT_SETTINGS.googleApiKey,
-      openaiApiKey: data.openaiApiKey ?? DEFAULT_SETTINGS.openaiApiKey,
-      openaiModel: data.openaiModel ?? DEFAULT_SETTINGS.openaiModel
-    };
+      const selectedWrap = filterBar.createDiv("focus-tasks-tag-selected");
+      for (const tag of Array.from(this.selectedTags)) {
+        const chip = selectedWrap.createEl("button", { text: tag });
+        chip.addClass("focus-tasks-tag-chip");
+        chip.addEventListener("click", () => {
+          this.selectedTags.delete(tag);
+          input.value = "";
+          this.renderView();
+        });
+      }
 
-    if (this.settings.calendarSources.length < 10) {
-      this.settings.calendarSources = this.settings.calendarSources.concat(
-        Array.from({ length: 10 - this.settings.calendarSources.length }, () => ({
-          name: "",
-          url: ""
-        }))
-      );
+      const clearButton = filterBar.createEl("button", {
+        text: "Rensa"
+      });
+      clearButton.addClass("focus-tasks-tag-clear");
+      clearButton.addEventListener("click", () => {
+        this.selectedTags.clear();
+        this.renderView();
+      });
+
+      if (tagTree.length === 0) {
+        filterBar.createEl("div", { text: "Inga taggar." });
+      } else {
+        this.renderHierarchyTree(
+          content.createDiv("focus-tasks-tree"),
+          tagTree,
+          "tag",
+          (path) => this.selectedTags.has(path),
+          (path) => {
+            if (this.selectedTags.has(path)) {
+              this.selectedTags.delete(path);
+            } else {
+              this.selectedTags.add(path);
+            }
+            this.renderView();
+          }
+        );
+      }
+
+      this.listEl = content.createDiv("focus-tasks-list");
+      const tasks = this.index.tasks.filter((task) => {
+        if (this.isHiddenByStatus(task)) {
+          return false;
+        }
+        if (task.tags.length === 0) {
+          return false;
+        }
+        if (this.isHiddenDeferred(task, "tags")) {
+          return false;
+        }
+        if (this.selectedTags.size === 0) {
+          return false;
+        }
+        return Array.from(this.selectedTags).every((tag) =>
+          task.tags.some((taskTag) => isHierarchyMatch(taskTag, tag))
+        );
+      });
+
+      if (tasks.length === 0) {
+        this.listEl.createEl("div", { text: "Inga uppgifter matchar." });
+        return;
+      }
+
+      for (const task of tasks) {
+        this.rows.render(task, this.listEl);
+      }
+      return;
     }
-  }
 
-  async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
-    await this.refreshCalendars();
-  }
+    if (this.selectedSection === "contexts") {
+      const visibleTasks = this.index.tasks.filter(
+        (task) =>
+          !this.isHiddenByStatus(task) &&
+          !this.isHiddenDeferred(task, "contexts")
+      );
+      const contextTree = getHierarchyTree(visibleTasks, "context");
+      if (contextTree.length === 0) {
+        content.createEl("div", { text: "Inga kontexter ännu." });
+        return;
+      }
+      if (
+        this.selectedContext &&
+        !flattenHierarchy(contextTree).some(
+          (node) => node.path === this.selectedContext
+        )
+      ) {
+        this.selectedContext = "";
+      }
 
-  async refreshCalendars(): Promise<void> {
-    const sources = this.settings.calendarSources.filter((source) =>
-      source.url.trim()
-    );
-    const events = new Map<string, CalendarEvent[]>();
-    const rangeStart = getLocalDateString();
-    const rangeEnd = getLocalDateString(
-      Math.max(1, Math.min(60, this.settings.calendarRangeDays))
-    );
-    this.calendarLastError = undefined;
-    this.calendarSuccessCount = 0;
-    this.calendarFailCount = 0;
-    this.calendarEventCount = 0;
+      this.renderHierarchyTree(
+        content.createDiv("focus-tasks-tree"),
+        contextTree,
+        "context",
+        (path) => this.selectedContext === path,
+        (path) => {
+          this.selectedContext = this.selectedContext === path ? "" : path;
+          this.renderView();
+        }
+      );
 
-    for (const source of sources) {
-      try {
-        const normalizedUrl = normalizeCalendarUrl(source.url);
-        const response = await requestUrl({
-          url: normalizedUrl,
-          headers: { "User-Agent": "FocusTasks" }
-        });
-        const calendarName = source.name || getCalendarNameFromUrl(source.url);
-        const parsed = parseIcsEvents(
-          response.text ?? "",
-          rangeStart,
-          rangeEnd,
-          calendarName
+      const contexts = groupTasksByContext(
+        visibleTasks.filter(
+          (task) =>
+            !this.selectedContext ||
+            (!!task.context && isHierarchyMatch(task.context, this.selectedContext))
+        ),
+        false
+      );
+
+      for (const [contextName, tasks] of contexts) {
+        const sorted = sortTasksByDate(tasks);
+        this.renderSection(
+          content,
+          contextName,
+          sorted,
+          `context:${contextName}`
         );
-        for (const event of parsed) {
-          const list = events.get(event.date) ?? [];
-          list.push(event);
-          events.set(event.date, list);
-        }
-        this.calendarEventCount += parsed.length;
-        this.calendarSuccessCount += 1;
-      } catch (error) {
-        console.error("Calendar fetch failed", error);
-        this.calendarFailCount += 1;
-        const message =
-          error instanceof Error ? error.message : "Okänt fel";
-        this.calendarLastError = `Kunde inte läsa kalender: ${message}`;
       }
+      return;
     }
 
-    for (const [date, list] of events) {
-      events.set(
-        date,
-        list.sort((a, b) => (a.startTime ?? "").localeCompare(b.startTime ?? ""))
+    if (this.selectedSection === "forecast") {
+      const today = getLocalDateString();
+      const days = 7;
+      const forecast = buildForecastMap(
+        scheduledTasks.filter((task) => !this.isHiddenByStatus(task)),
+        today,
+        days,
+        false
+      );
+
+      const overdue = scheduledTasks.filter(
+        (task) => !this.isHiddenByStatus(task) && isTaskOverdue(task, today)
       );
+      this.renderSection(content, "Överfört", overdue, "forecast-overdue");
+
+      for (let offset = 0; offset < days; offset += 1) {
+        const date = getLocalDateString(offset);
+        const tasks = forecast.get(date) ?? [];
+        const events = filterEventsForDate(
+          this.plugin.getEventsForDate(date),
+          date
+        );
+        this.renderSection(
+          content,
+          formatForecastTitle(date, offset),
+          tasks,
+          `forecast-${date}`,
+          undefined,
+          events
+        );
+      }
+      return;
     }
 
-    this.calendarEvents = events;
-    this.calendarLastRefresh = new Date().toLocaleString();
-    this.refreshViews();
-  }
+    const today = getLocalDateString();
+    const tomorrow = getLocalDateString(1);
 
-  private refreshViews(): void {
-    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE)) {
-      const view = leaf.view as FocusTasksView;
-      view.renderView();
+    const overdue = scheduledTasks.filter((task) => {
+      if (this.isHiddenByStatus(task)) {
+        return false;
+      }
+      const plannedDate = parseDate(task.planned);
+      const dueDate = parseDate(task.due);
+      if (dueDate) {
+        return dueDate < today;
+      }
+      if (plannedDate) {
+        return plannedDate < today;
+      }
+      return false;
+    });
+
+    const plannedToday = scheduledTasks.filter((task) => {
+      if (this.isHiddenByStatus(task)) {
+        return false;
+      }
+      const plannedDate = parseDate(task.planned);
+      const dueDate = parseDate(task.due);
+      if (plannedDate && dueDate) {
+        return plannedDate <= today && today <= dueDate;
+      }
+      if (plannedDate && !dueDate) {
+        return plannedDate === today;
+      }
+      return false;
+    });
+
+    const plannedTomorrow = scheduledTasks.filter((task) => {
+      if (this.isHiddenByStatus(task)) {
+        return false;
+      }
+      const plannedDate = parseDate(task.planned);
+      return plannedDate === tomorrow;
+    });
+
+    const todayEvents = filterEventsForDate(
+      this.plugin.getEventsForDate(today),
+      today
+    );
+    if (todayEvents.length > 0) {
+      this.renderEventList(content, "Kalender idag", todayEvents);
     }
+
+    this.renderSection(content, "Överfört", overdue, "overdue");
+    this.renderSection(content, "Planerat idag", plannedToday, "planned-today");
+    this.renderSection(
+      content,
+      "Planerat imorgon",
+      plannedTomorrow,
+      "planned-tomorrow"
+    );
   }
 
-  async debugCalendars(): Promise<void> {
-    const sources = this.settings.calendarSources.filter((source) =>
-      source.url.trim()
+  private renderSearchResults(content: HTMLElement): void {
+    const getProjects = (task: TaskItem): string[] =>
+      getTaskProjects(this.app, task);
+    const { query, terms, error } = parseTaskSearch(this.searchQuery);
+    if (!query) {
+      content
+        .createEl("div", { text: `Ogiltig sökning: ${error}` })
+        .addClass("focus-tasks-query-error");
+      return;
+    }
+
+    const context: TaskQueryContext = {
+      today: getLocalDateString(),
+      blocked: this.rows.blockedTasks,
+      getProjects
+    };
+    const matches = searchTasks(
+      this.index.tasks.filter(
+        (task) =>
+          !this.isHiddenByStatus(task) &&
+          evaluateTaskQuery(query, task, context)
+      ),
+      terms,
+      getProjects
     );
-    if (sources.length === 0) {
-      new Notice("Ingen kalender-URL angiven.");
+    if (matches.length === 0) {
+      content.createEl("div", { text: "Inga träffar." });
       return;
     }
 
-    const summaries: string[] = [];
-    for (const source of sources) {
-      try {
-        const normalizedUrl = normalizeCalendarUrl(source.url);
-        const response = await requestUrl({ url: normalizedUrl });
-        const text = response.text ?? "";
-        const vevents = (text.match(/BEGIN:VEVENT/g) || []).length;
-        const dtstarts = text.match(/DTSTART[^\n]*/g) || [];
-        const sample = dtstarts.slice(0, 5).join(" | ");
-        const has2026 = dtstarts.some((line) => line.includes("2026"));
-        summaries.push(
-          `${source.name || normalizedUrl}: VEVENT=${vevents}, DTSTART=${dtstarts.length}, 2026=${has2026 ? "ja" : "nej"}`
-        );
-        if (sample) {
-          summaries.push(`Sample: ${sample}`);
-        }
-      } catch (error) {
-        const message =
-          error instanceof Error ? error.message : "Okänt fel";
-        summaries.push(`${source.name || source.url}: FEL ${message}`);
+    const matchByTask = new Map(matches.map((match) => [match.task, match]));
+    const groups = groupTasksForPerspective(
+      matches.map((match) => match.task),
+      "project",
+      getProjects
+    );
+    for (const [project, tasks] of groups) {
+      const section = content.createDiv("focus-tasks-section");
+      section
+        .createDiv("focus-tasks-section-header")
+        .createEl("span", {
+          text: `${project || PERSPECTIVE_EMPTY_GROUP_TITLES.project} (${tasks.length})`
+        });
+      const list = section.createDiv("focus-tasks-list");
+      for (const task of tasks) {
+        this.rows.render(task, list, matchByTask.get(task));
       }
     }
-
-    new Notice(summaries.join("\n"), 10000);
   }
 
-  private onFileChange(file: TFile | null): void {
-    if (!file || file.extension !== "md") {
-      return;
+  private getProjectReviews(tasks: TaskItem[]): ProjectReview[] {
+    const defaultRule = parseReviewInterval(this.plugin.settings.reviewInterval);
+    const today = getLocalDateString();
+    const reviews: ProjectReview[] = [];
+    for (const [name, projectTasks] of groupTasksByProject(this.app, tasks, false)) {
+      const info =
+        this.projectInfos.get(name) ??
+        this.index.getProjectInfo(
+          name,
+          Array.from(new Set(projectTasks.map((task) => task.file)))
+        );
+      if (info.status === "completed" || info.status === "dropped") {
+        continue;
+      }
+      const lastReviewed = info.lastReviewed ?? getLastReview(projectTasks);
+      const rule = parseReviewInterval(info.reviewInterval) ?? defaultRule;
+      const nextReview =
+        info.nextReview ??
+        (lastReviewed && rule ? getNextRepeatDate(lastReviewed, rule) : today);
+      reviews.push({ info, tasks: projectTasks, lastReviewed, nextReview });
     }
-    this.index.triggerRefresh();
+    return reviews.sort(
+      (a, b) =>
+        a.nextReview.localeCompare(b.nextReview) ||
+        a.info.name.localeCompare(b.info.name)
+    );
   }
 
-  private async activateView(): Promise<void> {
-    const { workspace } = this.app;
-
-    let leaf = workspace.getLeavesOfType(VIEW_TYPE)[0];
+  private renderReview(content: HTMLElement, tasks: TaskItem[]): void {
+    const today = getLocalDateString();
+    const reviews = this.getProjectReviews(tasks);
+    const due = reviews.filter((review) => review.nextReview <= today);
+    const upcoming = reviews.filter((review) => review.nextReview > today);
 
-    if (!leaf) {
-      leaf = workspace.getLeaf(true);
-      await leaf.setViewState({ type: VIEW_TYPE, active: true });
+    if (due.length === 0) {
+      content.createEl("div", { text: "Inga projekt att granska." });
     }
 
-    workspace.revealLeaf(leaf);
-  }
-}
+    due.forEach((review, index) => {
+      const { info } = review;
+      const section = content.createDiv("focus-tasks-section");
+      const header = section.createDiv("focus-tasks-section-header");
+      header.createEl("span", {
+        text: `${info.name} (${index + 1}/${due.length})`
+      });
+      const reviewedButton = header.createEl("button", {
+        text: "Markera som granskad"
+      });
+      reviewedButton.addClass("focus-tasks-reviewed");
+      reviewedButton.addEventListener("click", () => {
+        this.markProjectReviewed(review).catch(console.error);
+      });
 
-class FocusTasksSettingTab extends PluginSettingTab {
-  private plugin: FocusTasksPlugin;
+      const details = [
+        PROJECT_STATUS_LABELS[info.status],
+        review.lastReviewed
+          ? `Senast granskad: ${review.lastReviewed}`
+          : "Aldrig granskad",
+        `Intervall: ${info.reviewInterval ?? this.plugin.settings.reviewInterval}`
+      ];
+      section
+        .createEl("div", { text: details.join(" • ") })
+        .addClass("focus-tasks-project-review");
+
+      const openTasks = this.index
+        .sortProjectTasks(info.name, review.tasks)
+        .filter((task) => !this.isHiddenByStatus(task));
+      const list = section.createDiv("focus-tasks-list");
+      if (openTasks.length === 0) {
+        list.createEl("div", { text: "Inga öppna uppgifter." });
+      }
+      for (const task of openTasks) {
+        this.rows.render(task, list);
+      }
+    });
 
-  constructor(app: App, plugin: FocusTasksPlugin) {
-    super(app, plugin);
-    this.plugin = plugin;
+    if (upcoming.length > 0) {
+      const section = content.createDiv("focus-tasks-section");
+      section
+        .createDiv("focus-tasks-section-header")
+        .createEl("span", { text: "Kommande granskningar" });
+      for (const review of upcoming) {
+        section
+          .createEl("div", { text: `${review.info.name} — ${review.nextReview}` })
+          .addClass("focus-tasks-project-review");
+      }
+    }
   }
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
-
-    containerEl.createEl("h3", { text: "Kalendrar" });
-    containerEl.createEl("p", {
-      text: "Fyll i upp till 10 ICS‑URLer. Lämna tomt för att inaktivera."
-    });
-
-    new Setting(containerEl)
-      .setName("Antal dagar framåt")
-      .setDesc("Hur många dagar i framtiden kalendern ska visa (1–60)")
-      .addText((text) =>
-        text
-          .setPlaceholder("7")
-          .setValue(String(this.plugin.settings.calendarRangeDays))
-          .onChange(async (newValue) => {
-            const parsed = Number.parseInt(newValue, 10);
-            this.plugin.settings.calendarRangeDays = Number.isNaN(parsed)
-              ? DEFAULT_SETTINGS.calendarRangeDays
-              : Math.max(1, Math.min(60, parsed));
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("Python‑kommando")
-      .setDesc("Används för OCR av handskrivna bilder")
-      .addText((text) =>
-        text
-          .setPlaceholder("python3")
-          .setValue(this.plugin.settings.pythonPath)
-          .onChange(async (newValue) => {
-            this.plugin.settings.pythonPath = newValue.trim() || "python3";
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("OCR‑leverantör")
-      .setDesc("Välj Tesseract eller Google Cloud Vision")
-      .addDropdown((dropdown) =>
-        dropdown
-          .addOption("tesseract", "Tesseract")
-          .addOption("google", "Google Vision")
-          .addOption("openai", "OpenAI Vision")
-          .setValue(this.plugin.settings.ocrProvider)
-          .onChange(async (value) => {
-            this.plugin.settings.ocrProvider = value as
-              | "tesseract"
-              | "google"
-              | "openai";
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("Tesseract‑sökväg")
-      .setDesc("Ange full sökväg om Tesseract inte hittas i PATH")
-      .addText((text) =>
-        text
-          .setPlaceholder("/opt/homebrew/bin/tesseract")
-          .setValue(this.plugin.settings.tesseractPath)
-          .onChange(async (newValue) => {
-            this.plugin.settings.tesseractPath = newValue.trim();
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("Google Vision API‑nyckel")
-      .setDesc("Krävs om du väljer Google Vision")
-      .addText((text) =>
-        text
-          .setPlaceholder("AIza...")
-          .setValue(this.plugin.settings.googleApiKey)
-          .onChange(async (newValue) => {
-            this.plugin.settings.googleApiKey = newValue.trim();
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("OpenAI API‑nyckel")
-      .setDesc("Krävs om du väljer OpenAI Vision")
-      .addText((text) =>
-        text
-          .setPlaceholder("sk-...")
-          .setValue(this.plugin.settings.openaiApiKey)
-          .onChange(async (newValue) => {
-            this.plugin.settings.openaiApiKey = newValue.trim();
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("OpenAI‑modell")
-      .setDesc("Exempel: gpt-4o-mini")
-      .addText((text) =>
-        text
-          .setPlaceholder("gpt-4o-mini")
-          .setValue(this.plugin.settings.openaiModel)
-          .onChange(async (newValue) => {
-            this.plugin.settings.openaiModel = newValue.trim() || "gpt-4o-mini";
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("Testa kalendrar")
-      .setDesc("Visar en snabb summering av ICS‑innehåll")
-      .addButton((button) =>
-        button.setButtonText("Kör test").onClick(async () => {
-          await this.plugin.debugCalendars();
+  private async markProjectReviewed(review: ProjectReview): Promise<void> {
+    const { info } = review;
+    const today = getLocalDateString();
+    const rule = parseReviewInterval(info.reviewInterval) ??
+      parseReviewInterval(this.plugin.settings.reviewInterval) ?? {
+        unit: "week",
+        interval: 1,
+        fromCompletion: true
+      };
+    const label = `Granskade ${info.name}`;
+    if (info.file) {
+      const file = info.file;
+      await this.plugin.history.track(label, [file], () =>
+        this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+          frontmatter["last-reviewed"] = today;
+          frontmatter["next-review"] = getNextRepeatDate(today, rule);
         })
       );
-
-    const status = this.plugin.getCalendarStatus();
-    const statusText = status.lastRefresh
-      ? `Senast uppdaterad: ${status.lastRefresh}`
-      : "Ingen uppdatering ännu.";
-    containerEl.createEl("p", { text: statusText });
-    const stats = this.plugin.getCalendarStats();
-    containerEl.createEl("p", {
-      text: `Lyckade: ${stats.success} • Misslyckade: ${stats.failed}`
-    });
-    containerEl.createEl("p", {
-      text: `Events hittade: ${this.plugin.getCalendarEventCount()}`
-    });
-    containerEl.createEl("p", {
-      text: `Range: ${this.plugin.settings.calendarRangeDays} dagar`
-    });
-    if (status.lastError) {
-      containerEl.createEl("p", { text: status.lastError });
+      return;
+    }
+    const openTasks = review.tasks.filter((task) => !isTaskClosed(task));
+    await this.plugin.history.track(
+      label,
+      openTasks.map((task) => task.file),
+      () =>
+        updateTasksInFiles(
+          this.app,
+          openTasks.map((task) => ({ task, updates: { review: today } })),
+          this.plugin.settings.metadataFormat
+        )
+    );
+    for (const task of openTasks) {
+      this.index.triggerRefresh(task.file);
     }
-
-    this.plugin.settings.calendarSources.forEach((source, index) => {
-      const setting = new Setting(containerEl).setName(`Kalender ${index + 1}`);
-      setting.addText((text) =>
-        text
-          .setPlaceholder("Namn")
-          .setValue(source.name)
-          .onChange(async (newValue) => {
-            this.plugin.settings.calendarSources[index].name = newValue.trim();
-            await this.plugin.saveSettings();
-          })
-      );
-      setting.addText((text) =>
-        text
-          .setPlaceholder("ICS URL")
-          .setValue(source.url)
-          .onChange(async (newValue) => {
-            this.plugin.settings.calendarSources[index].url = newValue.trim();
-            await this.plugin.saveSettings();
-          })
-      );
-    });
   }
-}
 
-class TaskEditModal extends Modal {
-  private file: TFile;
-  private line: number;
-  private taskText?: string;
-  private onSave?: () => void;
+  private getSelectedPerspective(): CustomPerspective | undefined {
+    return this.plugin.settings.perspectives.find(
+      (perspective) =>
+        this.selectedSection === `perspective:${perspective.id}`
+    );
+  }
 
-  constructor(
-    app: App,
-    file: TFile,
-    line: number,
-    taskText?: string,
-    onSave?: () => void
-  ) {
-    super(app);
-    this.file = file;
-    this.line = line;
-    this.taskText = taskText;
-    this.onSave = onSave;
+  private getPerspectiveTasks(perspective: CustomPerspective): {
+    tasks: TaskItem[];
+    error?: string;
+  } {
+    const { query, error } = parseTaskQuery(perspective.query);
+    if (!query) {
+      return { tasks: [], error };
+    }
+    const context: TaskQueryContext = {
+      today: getLocalDateString(),
+      blocked: this.rows.blockedTasks,
+      getProjects: (task) => getTaskProjects(this.app, task)
+    };
+    const section = `perspective:${perspective.id}`;
+    const statusFilter = this.statusFilter.get(section);
+    const queriesCompletion = referencesTaskCompletion(query);
+    return {
+      tasks: this.index.tasks.filter(
+        (task) =>
+          (queriesCompletion && !statusFilter
+            ? true
+            : !this.isHiddenByStatus(task, section)) &&
+          evaluateTaskQuery(query, task, context)
+      )
+    };
   }
 
-  async onOpen(): Promise<void> {
-    const { contentEl } = this;
-    contentEl.empty();
-    contentEl.createEl("h3", { text: "Uppgift" });
+  private renderPerspective(
+    content: HTMLElement,
+    perspective: CustomPerspective
+  ): void {
+    const { tasks, error } = this.getPerspectiveTasks(perspective);
+    if (error) {
+      content
+        .createEl("div", { text: `Ogiltigt filter: ${error}` })
+        .addClass("focus-tasks-query-error");
+      return;
+    }
+    if (tasks.length === 0) {
+      content.createEl("div", { text: "Inga uppgifter matchar filtret." });
+      return;
+    }
 
-    const taskData = await this.loadTaskData();
-    if (!taskData) {
-      contentEl.createEl("p", { text: "Kunde inte läsa uppgiften." });
+    const sorted = sortTasksForPerspective(tasks, perspective.sort);
+    if (perspective.grouping === "none") {
+      this.listEl = content.createDiv("focus-tasks-list");
+      for (const task of sorted) {
+        this.rows.render(task, this.listEl);
+      }
       return;
     }
 
-    const { task } = taskData;
+    const groups = groupTasksForPerspective(
+      sorted,
+      perspective.grouping,
+      (task) => getTaskProjects(this.app, task)
+    );
+    for (const [group, groupTasks] of groups) {
+      this.renderSection(
+        content,
+        group || PERSPECTIVE_EMPTY_GROUP_TITLES[perspective.grouping],
+        groupTasks,
+        `perspective-${perspective.id}-${group || "none"}`
+      );
+    }
+  }
 
-    const titleInput = contentEl.createEl("input", {
-      type: "text",
-      value: task.text,
-      attr: { placeholder: "Titel" }
-    });
-    titleInput.addClass("focus-tasks-modal-input");
+  private renderLogbook(content: HTMLElement): void {
+    const completedTasks = this.index.tasks.filter(
+      (task) => task.status === "done"
+    );
 
-    const projectInput = contentEl.createEl("input", {
-      type: "text",
-      value: task.project ?? "",
-      attr: { placeholder: "Project" }
-    });
-    projectInput.addClass("focus-tasks-modal-input");
+    const filterBar = content.createDiv("focus-tasks-tag-filter");
+    filterBar.createEl("div", { text: "Filter" }).addClass("focus-tasks-tag-title");
 
-    const contextInput = contentEl.createEl("input", {
-      type: "text",
-      value: task.context ?? "",
-      attr: { placeholder: "Kontext" }
+    const projectSelect = filterBar.createEl("select");
+    projectSelect.addClass("dropdown");
+    projectSelect.createEl("option", { text: "Alla projekt", value: "" });
+    const projects = new Set(
+      completedTasks.flatMap((task) => getTaskProjects(this.app, task))
+    );
+    for (const project of Array.from(projects).sort((a, b) => a.localeCompare(b))) {
+      projectSelect.createEl("option", { text: project, value: project });
+    }
+    projectSelect.value = this.logbookProject;
+    projectSelect.addEventListener("change", () => {
+      this.logbookProject = projectSelect.value;
+      this.renderView();
     });
-    contextInput.addClass("focus-tasks-modal-input");
 
-    const plannedInput = contentEl.createEl("input", {
-      type: "date",
-      value: task.planned ?? ""
+    const contextSelect = filterBar.createEl("select");
+    contextSelect.addClass("dropdown");
+    contextSelect.createEl("option", { text: "Alla kontexter", value: "" });
+    const contexts = new Set(
+      completedTasks
+        .map((task) => task.context)
+        .filter((context): context is string => !!context)
+    );
+    for (const context of Array.from(contexts).sort((a, b) => a.localeCompare(b))) {
+      contextSelect.createEl("option", { text: context, value: context });
+    }
+    contextSelect.value = this.logbookContext;
+    contextSelect.addEventListener("change", () => {
+      this.logbookContext = contextSelect.value;
+      this.renderView();
     });
-    plannedInput.addClass("focus-tasks-modal-input");
 
-    const dueInput = contentEl.createEl("input", {
-      type: "date",
-      value: task.due ?? ""
+    const tasks = completedTasks.filter((task) => {
+      if (
+        this.logbookProject &&
+        !getTaskProjects(this.app, task).includes(this.logbookProject)
+      ) {
+        return false;
+      }
+      if (this.logbookContext && task.context !== this.logbookContext) {
+        return false;
+      }
+      return true;
     });
-    dueInput.addClass("focus-tasks-modal-input");
 
-    const reviewInput = contentEl.createEl("input", {
-      type: "date",
-      value: task.review ?? ""
-    });
-    reviewInput.addClass("focus-tasks-modal-input");
+    if (tasks.length === 0) {
+      content.createEl("div", { text: "Inga klara uppgifter." });
+      return;
+    }
 
-    const tagsInput = contentEl.createEl("input", {
-      type: "text",
-      value: task.tags.join(", "),
-      attr: { placeholder: "Taggar (komma-separerat)" }
+    const byDay = new Map<string, TaskItem[]>();
+    for (const task of tasks) {
+      const day = parseDate(task.done) ?? "";
+      const list = byDay.get(day) ?? [];
+      list.push(task);
+      byDay.set(day, list);
+    }
+    const days = Array.from(byDay.keys()).sort((a, b) => {
+      if (!a || !b) {
+        return a ? -1 : b ? 1 : 0;
+      }
+      return b.localeCompare(a);
     });
-    tagsInput.addClass("focus-tasks-modal-input");
+    const today = getLocalDateString();
+    for (const day of days) {
+      const title = !day
+        ? "Utan slutdatum"
+        : day === today
+        ? `Idag (${day})`
+        : day === getLocalDateString(-1)
+        ? `Igår (${day})`
+        : day;
+      this.renderSection(
+        content,
+        title,
+        byDay.get(day) ?? [],
+        `logbook-${day || "undated"}`
+      );
+    }
+  }
 
-    const saveButton = contentEl.createEl("button", { text: "Spara" });
-    saveButton.addClass("focus-tasks-modal-save");
-    saveButton.addEventListener("click", async () => {
-      const tags = normalizeTagList(tagsInput.value);
-      await updateTaskInFile(this.app, taskData.taskRef, {
-        text: titleInput.value.trim() || task.text,
-        project: projectInput.value.trim() || undefined,
-        context: contextInput.value.trim() || undefined,
-        planned: plannedInput.value || undefined,
-        due: dueInput.value || undefined,
-        review: reviewInput.value || undefined,
-        tags
-      });
-      this.onSave?.();
-      this.close();
-    });
+  private isHiddenByStatus(
+    task: TaskItem,
+    section: string = this.selectedSection
+  ): boolean {
+    const filter = this.statusFilter.get(section);
+    if (filter) {
+      return task.status !== filter;
+    }
+    return !this.showCompleted && isTaskClosed(task);
   }
 
-  onClose(): void {
-    this.contentEl.empty();
+  private isInInactiveProject(task: TaskItem): boolean {
+    const infos = getTaskProjects(this.app, task)
+      .map((project) => this.projectInfos.get(project))
+      .filter((info): info is ProjectInfo => !!info);
+    return (
+      infos.length > 0 && infos.every((info) => info.status !== "active")
+    );
   }
 
-  private async loadTaskData(): Promise<
-    | { task: TaskItem; taskRef: TaskItem }
-    | undefined
-  > {
-    const content = await this.app.vault.read(this.file);
-    const lines = content.split(/\r?\n/);
-    const baseIndex = this.line - 1;
-    if (baseIndex < 0 || baseIndex >= lines.length) {
-      return undefined;
+  private setProjectStatus(info: ProjectInfo, status: ProjectStatus): void {
+    const file = info.file;
+    if (!file) {
+      return;
     }
+    this.plugin.history
+      .track(`${PROJECT_STATUS_ACTIONS[status]}: ${info.name}`, [file], () =>
+        this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+          frontmatter.status = status;
+        })
+      )
+      .catch(console.error);
+  }
 
-    let match: RegExpExecArray | null = null;
-    let index = baseIndex;
-    const range = 20;
-    for (let offset = 0; offset <= range; offset += 1) {
-      const forward = baseIndex + offset;
-      if (forward >= 0 && forward < lines.length) {
-        const forwardMatch = /^(\s*[-*])\s+\[( |x|X)\]\s+(.*)$/.exec(
-          lines[forward]
-        );
-        if (forwardMatch) {
-          match = forwardMatch;
-          index = forward;
-          break;
+  private isHiddenDeferred(task: TaskItem, section: string): boolean {
+    return (
+      !this.showDeferred.has(section) &&
+      isTaskDeferred(task, getLocalDateString())
+    );
+  }
+
+  private renderBulkActions(container: HTMLElement): void {
+    const tasks = this.rows.getSelectedTasks();
+    const bar = container.createDiv("focus-tasks-bulk-bar");
+    bar.createEl("span", { text: `${tasks.length} markerade` });
+
+    const prompt = (
+      title: string,
+      placeholder: string,
+      onSubmit: (value: string) => void
+    ): void => {
+      new TextPromptModal(this.app, title, placeholder, onSubmit).open();
+    };
+    const promptDate = (
+      title: string,
+      key: "defer" | "planned" | "due"
+    ): void => {
+      prompt(title, "fredag, +3d eller 2026-10-20 (tomt tar bort)", (value) => {
+        const date = parseDateInput(value);
+        if (date.invalid) {
+          new Notice(`Kunde inte tolka datum: ${date.invalid}`);
+          return;
         }
-      }
-      const backward = baseIndex - offset;
-      if (backward >= 0 && backward < lines.length) {
-        const backwardMatch = /^(\s*[-*])\s+\[( |x|X)\]\s+(.*)$/.exec(
-          lines[backward]
-        );
-        if (backwardMatch) {
-          match = backwardMatch;
-          index = backward;
-          break;
+        this.applyBulkUpdate(tasks, () => ({ [key]: date.value }));
+      });
+    };
+
+    const actions: Array<[string, () => void]> = [
+      [
+        "Klar",
+        () =>
+          this.applyBulkUpdate(
+            tasks.filter((task) => !isTaskClosed(task)),
+            () => ({ status: "done" })
+          )
+      ],
+      ["Planerad…", () => promptDate("Planerad", "planned")],
+      ["Förfaller…", () => promptDate("Förfaller", "due")],
+      ["Uppskjuten…", () => promptDate("Uppskjuten", "defer")],
+      [
+        "Projekt…",
+        () =>
+          prompt("Projekt", "Kund A, Intern (tomt tar bort)", (value) => {
+            const projects = parseProjectList(value);
+            this.applyBulkUpdate(tasks, () => ({ projects }));
+          })
+      ],
+      [
+        "Kontext…",
+        () =>
+          prompt("Kontext", "Hem/Kök (tomt tar bort)", (value) => {
+            const context = normalizeContextName(value) || undefined;
+            this.applyBulkUpdate(tasks, () => ({ context }));
+          })
+      ],
+      [
+        "Lägg till tagg…",
+        () =>
+          prompt("Lägg till tagg", "#kund #väntar", (value) => {
+            const tags = normalizeTagList(value);
+            this.applyBulkUpdate(tasks, (task) => ({
+              tags: Array.from(new Set([...task.tags, ...tags]))
+            }));
+          })
+      ],
+      [
+        "Ta bort tagg…",
+        () =>
+          prompt("Ta bort tagg", "#kund #väntar", (value) => {
+            const tags = normalizeTagList(value);
+            this.applyBulkUpdate(tasks, (task) => ({
+              tags: task.tags.filter((tag) => !tags.includes(tag))
+            }));
+          })
+      ],
+      [
+        "Flytta till…",
+        () =>
+          new TaskMoveModal(this.app, (target) => {
+            this.rows.clearSelection();
+            this.plugin.history
+              .track(
+                `Flyttade ${tasks.length} uppgifter`,
+                [...tasks.map((task) => task.file), target.file],
+                () => moveTasksToTarget(this.app, tasks, target)
+              )
+              .then(() => {
+                for (const task of tasks) {
+                  this.index.triggerRefresh(task.file);
+                }
+                this.index.triggerRefresh(target.file);
+              })
+              .catch(console.error);
+          }).open()
+      ],
+      [
+        "Ta bort",
+        () =>
+          new ConfirmModal(
+            this.app,
+            `Ta bort ${tasks.length} uppgifter med underpunkter?`,
+            "Ta bort",
+            () => {
+              this.rows.clearSelection();
+              this.plugin.history
+                .track(
+                  `Tog bort ${tasks.length} uppgifter`,
+                  tasks.map((task) => task.file),
+                  () => deleteTasksFromFiles(this.app, tasks)
+                )
+                .then(() => {
+                  for (const task of tasks) {
+                    this.index.triggerRefresh(task.file);
+                  }
+                })
+                .catch(console.error);
+            }
+          ).open()
+      ],
+      [
+        "Avmarkera",
+        () => {
+          this.rows.clearSelection();
+          this.renderView();
+        }
+      ]
+    ];
+    for (const [label, action] of actions) {
+      const button = bar.createEl("button", { text: label });
+      button.addEventListener("click", action);
+    }
+  }
+
+  private applyBulkUpdate(
+    tasks: TaskItem[],
+    getUpdates: (task: TaskItem) => TaskUpdates
+  ): void {
+    this.rows.clearSelection();
+    this.plugin.history
+      .track(
+        `Ändrade ${tasks.length} uppgifter`,
+        tasks.map((task) => task.file),
+        () =>
+          updateTasksInFiles(
+            this.app,
+            tasks.map((task) => ({ task, updates: getUpdates(task) })),
+            this.plugin.settings.metadataFormat
+          )
+      )
+      .then((updated) => {
+        new Notice(`Uppdaterade ${updated} av ${tasks.length} uppgifter.`);
+        for (const task of tasks) {
+          this.index.triggerRefresh(task.file);
         }
+      })
+      .catch(console.error);
+  }
+
+  private renderHierarchyTree(
+    container: HTMLElement,
+    nodes: HierarchyNode[],
+    kind: HierarchyKind,
+    isSelected: (path: string) => boolean,
+    onSelect: (path: string) => void
+  ): void {
+    const list = container.createEl("ul", { cls: "focus-tasks-tree-list" });
+    for (const node of nodes) {
+      const item = list.createEl("li", { cls: "focus-tasks-tree-item" });
+      const row = item.createDiv("focus-tasks-tree-row");
+      const key = `tree:${kind}:${node.path}`;
+      const isExpanded = this.sectionExpanded.get(key) ?? false;
+
+      const toggle = row.createEl("button", {
+        text: node.children.length === 0 ? "" : isExpanded ? "▾" : "▸"
+      });
+      toggle.addClass("focus-tasks-tree-toggle");
+      if (node.children.length === 0) {
+        toggle.disabled = true;
+      } else {
+        toggle.addEventListener("click", () => {
+          this.sectionExpanded.set(key, !isExpanded);
+          this.renderView();
+        });
+      }
+
+      const label = row.createEl("button", {
+        text: `${node.name} (${node.count})`
+      });
+      label.addClass("focus-tasks-tree-label");
+      label.toggleClass("is-active", isSelected(node.path));
+      label.addEventListener("click", () => onSelect(node.path));
+
+      const renameButton = row.createEl("button", { text: "Byt namn" });
+      renameButton.addClass("focus-tasks-tree-rename");
+      renameButton.addEventListener("click", () => {
+        this.openRenameModal(kind, node.path);
+      });
+
+      if (isExpanded && node.children.length > 0) {
+        this.renderHierarchyTree(item, node.children, kind, isSelected, onSelect);
       }
     }
+  }
 
-    if (!match) {
-      if (this.taskText) {
-        const target = normalizeTaskText(this.taskText);
-        for (let i = 0; i < lines.length; i += 1) {
-          const candidate = /^(\s*[-*])\s+\[( |x|X)\]\s+(.*)$/.exec(
-            lines[i]
-          );
-          if (!candidate) {
-            continue;
-          }
-          const parsed = parseTaskMetadata(candidate[3].trim());
-          if (normalizeTaskText(parsed.text) === target) {
-            match = candidate;
-            index = i;
-            break;
+  private openRenameModal(kind: HierarchyKind, path: string): void {
+    const tasks = this.index.tasks.filter((task) =>
+      getHierarchyValues(task, kind).some((value) => isHierarchyMatch(value, path))
+    );
+    new HierarchyRenameModal(this.app, kind, path, tasks, (newPath) => {
+      this.renameHierarchyNode(kind, path, newPath, tasks).catch(console.error);
+    }).open();
+  }
+
+  private async renameHierarchyNode(
+    kind: HierarchyKind,
+    path: string,
+    newPath: string,
+    tasks: TaskItem[]
+  ): Promise<void> {
+    const updates = (task: TaskItem): TaskUpdates =>
+      kind === "tag"
+        ? {
+            tags: Array.from(
+              new Set(
+                task.tags.map((tag) => renameHierarchyPath(tag, path, newPath))
+              )
+            )
           }
-        }
+        : {
+            context: task.context
+              ? renameHierarchyPath(task.context, path, newPath)
+              : undefined
+          };
+    const updated = await this.plugin.history.track(
+      `Bytte namn på ${path} till ${newPath}`,
+      tasks.map((task) => task.file),
+      () =>
+        updateTasksInFiles(
+          this.app,
+          tasks.map((task) => ({ task, updates: updates(task) })),
+          this.plugin.settings.metadataFormat
+        )
+    );
+    if (kind === "tag" && this.selectedTags.delete(path)) {
+      this.selectedTags.add(newPath);
+    }
+    if (kind === "context" && this.selectedContext === path) {
+      this.selectedContext = newPath;
+    }
+    new Notice(`Uppdaterade ${updated} av ${tasks.length} uppgifter.`);
+    for (const task of tasks) {
+      this.index.triggerRefresh(task.file);
+    }
+  }
+
+  private renderSection(
+    container: HTMLElement,
+    title: string,
+    tasks: TaskItem[],
+    key: string,
+    sectionId?: string,
+    events?: CalendarEvent[]
+  ): void {
+    const section = container.createDiv("focus-tasks-section");
+    if (sectionId) {
+      section.setAttribute("id", sectionId);
+    }
+    const header = section.createDiv("focus-tasks-section-header");
+    header.createEl("span", { text: title });
+
+    const isExpanded = this.sectionExpanded.get(key) ?? true;
+    const toggle = header.createEl("button", {
+      text: isExpanded ? "Dölj" : "Visa"
+    });
+    toggle.addClass("focus-tasks-section-toggle");
+    toggle.addEventListener("click", () => {
+      this.sectionExpanded.set(key, !isExpanded);
+      this.renderView();
+    });
+
+    if (!isExpanded) {
+      return;
+    }
+
+    if (events && events.length > 0) {
+      this.renderEventList(section, "Kalender", events);
+    }
+
+    const list = section.createDiv("focus-tasks-list");
+    if (tasks.length === 0) {
+      list.createEl("div", { text: "Inga uppgifter." });
+      return;
+    }
+
+    for (const task of tasks) {
+      this.rows.render(task, list);
+    }
+  }
+
+  private renderEventList(
+    container: HTMLElement,
+    title: string,
+    events: CalendarEvent[]
+  ): void {
+    const wrapper = container.createDiv("focus-tasks-events");
+    const header = wrapper.createDiv("focus-tasks-events-header");
+    header.createEl("span", { text: title });
+
+    const list = wrapper.createDiv("focus-tasks-events-list");
+    for (const event of events) {
+      const row = list.createDiv("focus-tasks-event");
+      const timeLabel = event.allDay
+        ? "Heldag"
+        : event.startTime && event.endTime
+        ? `${event.startTime} - ${event.endTime}`
+        : event.startTime ?? "";
+      const calendarLabel = event.calendarName
+        ? ` (${event.calendarName})`
+        : "";
+      row.createEl("span", { text: timeLabel }).addClass("focus-tasks-event-time");
+      row
+        .createEl("span", { text: `${event.title}${calendarLabel} (${event.date})` })
+        .addClass("focus-tasks-event-title");
+      if (event.location) {
+        row.createEl("span", { text: event.location }).addClass("focus-tasks-event-location");
       }
     }
+  }
+}
 
-    if (!match) {
-      return undefined;
+class TaskQueryBlock extends MarkdownRenderChild {
+  private plugin: FocusTasksPlugin;
+  private index: TaskIndex;
+  private options?: TaskBlockOptions;
+  private error?: string;
+  private rows: TaskRowRenderer;
+
+  constructor(
+    containerEl: HTMLElement,
+    plugin: FocusTasksPlugin,
+    index: TaskIndex,
+    source: string
+  ) {
+    super(containerEl);
+    this.plugin = plugin;
+    this.index = index;
+    const parsed = parseTaskBlockOptions(source);
+    this.options = parsed.options;
+    this.error = parsed.error;
+    this.rows = new TaskRowRenderer(
+      plugin.app,
+      plugin,
+      index,
+      (task) => !this.options?.showCompleted && isTaskClosed(task),
+      () => this.render()
+    );
+  }
+
+  onload(): void {
+    this.render();
+    this.register(
+      this.index.onChange((changedFiles) => {
+        if (changedFiles.size > 0) {
+          this.render();
+        }
+      })
+    );
+  }
+
+  private render(): void {
+    const { containerEl, options } = this;
+    containerEl.empty();
+    containerEl.addClass("focus-tasks-block");
+    if (!options) {
+      containerEl
+        .createEl("div", { text: `Ogiltigt focustasks-block: ${this.error}` })
+        .addClass("focus-tasks-query-error");
+      return;
     }
-    const parsed = parseTaskMetadata(match[3].trim());
-    const task: TaskItem = {
-      file: this.file,
-      line: index + 1,
-      text: parsed.text,
-      completed: match[2].toLowerCase() === "x",
-      project: parsed.project,
-      context: parsed.context,
-      planned: parsed.planned,
-      due: parsed.due,
-      review: parsed.review,
-      tags: parsed.tags,
-      subitems: []
+
+    this.rows.refreshState();
+    const getProjects = (task: TaskItem): string[] =>
+      getTaskProjects(this.plugin.app, task);
+    const context: TaskQueryContext = {
+      today: getLocalDateString(),
+      blocked: this.rows.blockedTasks,
+      getProjects
     };
-    return { task, taskRef: task };
+    const tasks = sortTasksForPerspective(
+      this.index.tasks.filter(
+        (task) =>
+          (options.showCompleted || !isTaskClosed(task)) &&
+          evaluateTaskQuery(options.query, task, context)
+      ),
+      options.sort
+    );
+    if (tasks.length === 0) {
+      containerEl.createEl("div", { text: "Inga uppgifter matchar filtret." });
+      return;
+    }
+
+    const groups = groupTasksForPerspective(tasks, options.grouping, getProjects);
+    for (const [group, groupTasks] of groups) {
+      if (options.grouping !== "none") {
+        containerEl
+          .createEl("div", {
+            text: group || PERSPECTIVE_EMPTY_GROUP_TITLES[options.grouping]
+          })
+          .addClass("focus-tasks-block-group");
+      }
+      const list = containerEl.createDiv("focus-tasks-list");
+      for (const task of groupTasks) {
+        this.rows.render(task, list);
+      }
+    }
   }
 }
 
-function findNearestTaskLine(editor: any, startLine: number): number | undefined {
-  const isTaskLine = (lineText: string): boolean =>
-    /^\s*[-*]\s+\[( |x|X)\]\s+/.test(lineText);
+export default class FocusTasksPlugin extends Plugin {
+  private index!: TaskIndex;
+  public history!: EditHistory;
+  public settings: FocusTasksSettings = DEFAULT_SETTINGS;
+  private calendarEvents = new Map<string, CalendarEvent[]>();
+  private calendarInterval?: number;
+  private calendarLastRefresh?: string;
+  private calendarLastError?: string;
+  private calendarSuccessCount = 0;
+  private calendarFailCount = 0;
+  private calendarEventCount = 0;
+  private rescanDebounced = debounce(
+    () => {
+      this.index.refresh().catch(console.error);
+    },
+    1000,
+    true
+  );
+
+  async onload(): Promise<void> {
+    this.index = new TaskIndex(this.app, () => this.settings);
+    this.history = new EditHistory(this.app, this.index);
+    await this.loadSettings();
+
+    this.registerMarkdownCodeBlockProcessor("focustasks", (source, el, ctx) => {
+      ctx.addChild(new TaskQueryBlock(el, this, this.index, source));
+    });
+
+    this.registerView(VIEW_TYPE, (leaf) =>
+      new FocusTasksView(leaf, this.index, this)
+    );
+
+    this.addSettingTab(new FocusTasksSettingTab(this.app, this));
+
+    this.app.workspace.onLayoutReady(() => {
+      this.index.refresh().catch(console.error);
+      this.registerEvent(
+        this.app.vault.on("create", (file) => this.onFileChange(file))
+      );
+    });
+
+    this.addRibbonIcon("check-square", "FocusTasks", () => {
+      this.activateView().catch(console.error);
+    });
+
+    this.addRibbonIcon("plus-circle", "Snabbinmatning", () => {
+      new QuickCaptureModal(this.app, this).open();
+    });
+
+    this.addCommand({
+      id: "focus-tasks-open",
+      name: "Open FocusTasks",
+      callback: () => this.activateView()
+    });
+
+    this.registerObsidianProtocolHandler("focustasks", (params) => {
+      this.handleProtocolAction(params).catch((error) => {
+        console.error(error);
+        new Notice("FocusTasks: kunde inte utföra åtgärden.");
+      });
+    });
+
+    this.addCommand({
+      id: "focus-tasks-undo",
+      name: "Ångra senaste ändring i FocusTasks",
+      callback: () => this.history.undo()
+    });
+
+    this.addCommand({
+      id: "focus-tasks-redo",
+      name: "Gör om ändring i FocusTasks",
+      callback: () => this.history.redo()
+    });
+
+    this.addCommand({
+      id: "focus-tasks-quick-capture",
+      name: "Snabbinmatning",
+      callback: () => new QuickCaptureModal(this.app, this).open()
+    });
+
+    this.addCommand({
+      id: "focus-tasks-edit-task",
+      name: "Edit task metadata",
+      editorCallback: (editor) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) {
+          new Notice("Ingen fil är öppen.");
+          return;
+        }
+        const cursorLine = editor.getCursor().line;
+        const targetLine = findNearestTaskLine(editor, cursorLine);
+        if (targetLine === undefined) {
+          new Notice("Ingen uppgift hittades på raden.");
+          return;
+        }
+        const match = TASK_LINE_REGEX.exec(editor.getLine(targetLine));
+        if (!match) {
+          new Notice("Ingen uppgift hittades på raden.");
+          return;
+        }
+        const task = createTaskItem(file, targetLine, match[2], match[3]);
+        const modal = new TaskEditModal(this.app, this, task, () =>
+          this.index.triggerRefresh(file)
+        );
+        modal.open();
+      }
+    });
+
+    this.addCommand({
+      id: "focus-tasks-ocr-image",
+      name: "Convert handwriting image to markdown",
+      editorCallback: (editor) => {
+        if ((this.app as any).isMobile) {
+          new Notice("OCR stöds inte på mobil.");
+          return;
+        }
+
+        let execFile: typeof import("child_process").execFile;
+        let pathModule: typeof import("path");
+        try {
+          execFile = require("child_process").execFile;
+          pathModule = require("path");
+        } catch (error) {
+          console.error("OCR requires Node.js APIs", error);
+          new Notice("OCR kräver desktop‑klienten.");
+          return;
+        }
+
+        const file = this.app.workspace.getActiveFile();
+        if (!file) {
+          new Notice("Ingen fil är öppen.");
+          return;
+        }
+        const line = editor.getCursor().line;
+        const lineText = editor.getLine(line);
+        const imagePath = extractImagePath(lineText);
+        if (!imagePath) {
+          new Notice("Ingen bild hittades på raden.");
+          return;
+        }
+        const basePath = this.app.vault.adapter.getBasePath();
+        const resolved = this.app.metadataCache.getFirstLinkpathDest(
+          imagePath,
+          file.path
+        );
+        const resolvedPath = resolved ? resolved.path : imagePath;
+        const absolutePath = pathModule.join(basePath, resolvedPath);
+        const scriptPath = pathModule.join(
+          basePath,
+          ".obsidian",
+          "plugins",
+          "FocusTasks",
+          "scripts",
+          "handwriting_ocr.py"
+        );
+
+        execFile(
+          this.settings.pythonPath,
+          [scriptPath, absolutePath, this.settings.ocrProvider],
+          {
+            env: {
+              ...process.env,
+              TESSERACT_CMD: this.settings.tesseractPath || process.env.TESSERACT_CMD,
+              GOOGLE_OCR_KEY: this.settings.googleApiKey || process.env.GOOGLE_OCR_KEY,
+              OPENAI_API_KEY: this.settings.openaiApiKey || process.env.OPENAI_API_KEY,
+              OPENAI_MODEL: this.settings.openaiModel || process.env.OPENAI_MODEL
+            }
+          },
+          (error, stdout, stderr) => {
+            if (error) {
+              console.error(stderr || error.message);
+              new Notice("OCR misslyckades. Kontrollera python/beroenden.");
+              return;
+            }
+            const output = stdout.trim();
+            if (!output) {
+              new Notice("Ingen text hittades.");
+              return;
+            }
+            editor.replaceRange(`\n\n${output}\n`, {
+              line: line + 1,
+              ch: 0
+            });
+          }
+        );
+      }
+    });
+
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => this.onFileChange(file))
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => this.index.removeFile(file.path))
+    );
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) =>
+        this.index.handleMetadataChange(file)
+      )
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        if (file instanceof TFile) {
+          this.index.renameFile(file, oldPath);
+        } else {
+          this.index.triggerRefresh();
+        }
+      })
+    );
+
+    await this.refreshCalendars();
+    this.calendarInterval = window.setInterval(
+      () => this.refreshCalendars(),
+      5 * 60 * 1000
+    );
+  }
+
+  onunload(): void {
+    this.app.workspace.detachLeavesOfType(VIEW_TYPE);
+    if (this.calendarInterval) {
+      window.clearInterval(this.calendarInterval);
+    }
+  }
+
+  getEventsForDate(date: string): CalendarEvent[] {
+    return this.calendarEvents.get(date) ?? [];
+  }
+
+  getCalendarStatus(): { lastRefresh?: string; lastError?: string } {
+    return {
+      lastRefresh: this.calendarLastRefresh,
+      lastError: this.calendarLastError
+    };
+  }
+
+  getCalendarStats(): { success: number; failed: number } {
+    return {
+      success: this.calendarSuccessCount,
+      failed: this.calendarFailCount
+    };
+  }
+
+  getCalendarEventCount(): number {
+    return this.calendarEventCount;
+  }
+
+  async loadSettings(): Promise<void> {
+    const data = (await this.loadData()) as Partial<FocusTasksSettings> & {
+      calendarUrls?: string[];
+    };
+
+    const sources = data.calendarSources ??
+      (data.calendarUrls
+        ? data.calendarUrls.map((url) => ({ name: "", url }))
+        : undefined);
+
+    this.settings = {
+      calendarSources: sources ?? DEFAULT_SETTINGS.calendarSources,
+      calendarRangeDays:
+        data.calendarRangeDays ?? DEFAULT_SETTINGS.calendarRangeDays,
+      pythonPath: data.pythonPath ?? DEFAULT_SETTINGS.pythonPath,
+      tesseractPath: data.tesseractPath ?? DEFAULT_SETTINGS.tesseractPath,
+      ocrProvider: data.ocrProvider ?? DEFAULT_SETTINGS.ocrProvider,
+      googleApiKey: data.googleApiKey ?? DEFAULT_SETTINGS.googleApiKey,
+      openaiApiKey: data.openaiApiKey ?? DEFAULT_SETTINGS.openaiApiKey,
+      openaiModel: data.openaiModel ?? DEFAULT_SETTINGS.openaiModel,
+      metadataFormat: data.metadataFormat ?? DEFAULT_SETTINGS.metadataFormat,
+      perspectives: data.perspectives ?? [],
+      includePatterns: data.includePatterns ?? DEFAULT_SETTINGS.includePatterns,
+      excludePatterns: data.excludePatterns ?? DEFAULT_SETTINGS.excludePatterns,
+      templatesFolder: data.templatesFolder ?? DEFAULT_SETTINGS.templatesFolder,
+      reviewInterval: data.reviewInterval ?? DEFAULT_SETTINGS.reviewInterval,
+      captureTarget: data.captureTarget ?? DEFAULT_SETTINGS.captureTarget,
+      captureNotePath: data.captureNotePath ?? DEFAULT_SETTINGS.captureNotePath,
+      captureHeading: data.captureHeading ?? DEFAULT_SETTINGS.captureHeading
+    };
+
+    if (this.settings.calendarSources.length < 10) {
+      this.settings.calendarSources = this.settings.calendarSources.concat(
+        Array.from({ length: 10 - this.settings.calendarSources.length }, () => ({
+          name: "",
+          url: ""
+        }))
+      );
+    }
+  }
+
+  requestRescan(): void {
+    this.rescanDebounced();
+  }
+
+  getCapturePath(): string {
+    if (this.settings.captureTarget === "daily") {
+      return getDailyNotePath(this.app);
+    }
+    const path = normalizePath(
+      this.settings.captureNotePath.trim() || DEFAULT_SETTINGS.captureNotePath
+    );
+    return path.endsWith(".md") ? path : `${path}.md`;
+  }
+
+  async captureTask(fields: TaskLineFields): Promise<TFile> {
+    const path = this.getCapturePath();
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    const file =
+      existing instanceof TFile ? existing : await createNote(this.app, path);
+    const line = formatTaskLine(
+      "-",
+      "open",
+      fields,
+      "",
+      this.settings.metadataFormat
+    );
+    const content = await this.app.vault.read(file);
+    await this.app.vault.modify(
+      file,
+      insertLinesUnderHeading(content, this.settings.captureHeading, [line])
+    );
+    if (!isPathIndexed(file.path, this.settings)) {
+      new Notice(`${file.path} indexeras inte av FocusTasks.`);
+    }
+    await this.index.refreshFile(file);
+    return file;
+  }
+
+  async saveSettings(): Promise<void> {
+    await this.saveData(this.settings);
+    await this.refreshCalendars();
+  }
+
+  async refreshCalendars(): Promise<void> {
+    const sources = this.settings.calendarSources.filter((source) =>
+      source.url.trim()
+    );
+    const events = new Map<string, CalendarEvent[]>();
+    const rangeStart = getLocalDateString();
+    const rangeEnd = getLocalDateString(
+      Math.max(1, Math.min(60, this.settings.calendarRangeDays))
+    );
+    this.calendarLastError = undefined;
+    this.calendarSuccessCount = 0;
+    this.calendarFailCount = 0;
+    this.calendarEventCount = 0;
+
+    for (const source of sources) {
+      try {
+        const normalizedUrl = normalizeCalendarUrl(source.url);
+        const response = await requestUrl({
+          url: normalizedUrl,
+          headers: { "User-Agent": "FocusTasks" }
+        });
+        const calendarName = source.name || getCalendarNameFromUrl(source.url);
+        const parsed = parseIcsEvents(
+          response.text ?? "",
+          rangeStart,
+          rangeEnd,
+          calendarName
+        );
+        for (const event of parsed) {
+          const list = events.get(event.date) ?? [];
+          list.push(event);
+          events.set(event.date, list);
+        }
+        this.calendarEventCount += parsed.length;
+        this.calendarSuccessCount += 1;
+      } catch (error) {
+        console.error("Calendar fetch failed", error);
+        this.calendarFailCount += 1;
+        const message =
+          error instanceof Error ? error.message : "Okänt fel";
+        this.calendarLastError = `Kunde inte läsa kalender: ${message}`;
+      }
+    }
+
+    for (const [date, list] of events) {
+      events.set(
+        date,
+        list.sort((a, b) => (a.startTime ?? "").localeCompare(b.startTime ?? ""))
+      );
+    }
+
+    this.calendarEvents = events;
+    this.calendarLastRefresh = new Date().toLocaleString();
+    this.refreshViews();
+  }
+
+  private refreshViews(): void {
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE)) {
+      const view = leaf.view as FocusTasksView;
+      view.renderView();
+    }
+  }
+
+  async debugCalendars(): Promise<void> {
+    const sources = this.settings.calendarSources.filter((source) =>
+      source.url.trim()
+    );
+    if (sources.length === 0) {
+      new Notice("Ingen kalender-URL angiven.");
+      return;
+    }
+
+    const summaries: string[] = [];
+    for (const source of sources) {
+      try {
+        const normalizedUrl = normalizeCalendarUrl(source.url);
+        const response = await requestUrl({ url: normalizedUrl });
+        const text = response.text ?? "";
+        const vevents = (text.match(/BEGIN:VEVENT/g) || []).length;
+        const dtstarts = text.match(/DTSTART[^\n]*/g) || [];
+        const sample = dtstarts.slice(0, 5).join(" | ");
+        const has2026 = dtstarts.some((line) => line.includes("2026"));
+        summaries.push(
+          `${source.name || normalizedUrl}: VEVENT=${vevents}, DTSTART=${dtstarts.length}, 2026=${has2026 ? "ja" : "nej"}`
+        );
+        if (sample) {
+          summaries.push(`Sample: ${sample}`);
+        }
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Okänt fel";
+        summaries.push(`${source.name || source.url}: FEL ${message}`);
+      }
+    }
+
+    new Notice(summaries.join("\n"), 10000);
+  }
+
+  private onFileChange(file: TAbstractFile | null): void {
+    if (!(file instanceof TFile) || file.extension !== "md") {
+      return;
+    }
+    this.index.triggerRefresh(file);
+  }
+
+  private async activateView(): Promise<FocusTasksView | undefined> {
+    const { workspace } = this.app;
+
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE)[0];
+
+    if (!leaf) {
+      leaf = workspace.getLeaf(true);
+      await leaf.setViewState({ type: VIEW_TYPE, active: true });
+    }
+
+    workspace.revealLeaf(leaf);
+    return leaf.view instanceof FocusTasksView ? leaf.view : undefined;
+  }
+
+  private async handleProtocolAction(params: ObsidianProtocolData): Promise<void> {
+    switch (params.action) {
+      case "add": {
+        const { fields, errors } = parseProtocolTask(params);
+        if (!fields || errors.length > 0) {
+          new Notice(`FocusTasks: ${errors.join(" ")}`);
+          return;
+        }
+        const file = await this.captureTask(fields);
+        new Notice(`Uppgiften sparades i ${file.basename}.`);
+        return;
+      }
+      case "open": {
+        if (!params.perspective) {
+          new Notice("FocusTasks: parametern perspective saknas.");
+          return;
+        }
+        const section = resolveFocusTasksSection(
+          params.perspective,
+          this.settings.perspectives
+        );
+        if (!section) {
+          new Notice(
+            `FocusTasks: okänt perspektiv "${params.perspective}". Använd ${FOCUS_TASKS_SECTIONS.join(", ")} eller namnet på ett eget perspektiv.`
+          );
+          return;
+        }
+        const view = await this.activateView();
+        view?.showSection(section);
+        return;
+      }
+      case "complete": {
+        const id = params.id?.trim().replace(/^\^/, "");
+        if (!id) {
+          new Notice("FocusTasks: parametern id saknas.");
+          return;
+        }
+        await this.index.waitUntilReady();
+        const task = this.index.getTaskByBlockId(id);
+        if (!task) {
+          new Notice(`FocusTasks: ingen uppgift med id ^${id} hittades.`);
+          return;
+        }
+        if (isTaskClosed(task)) {
+          new Notice(`FocusTasks: "${task.text}" är redan avslutad.`);
+          return;
+        }
+        const saved = await this.history.track(
+          `Bockade av "${task.text}"`,
+          [task.file],
+          () =>
+            updateTaskInFile(
+              this.app,
+              task,
+              { status: "done" },
+              this.settings.metadataFormat
+            )
+        );
+        if (saved) {
+          await this.index.refreshFile(task.file);
+          new Notice(`Klar: ${task.text}`);
+        }
+        return;
+      }
+      default:
+        new Notice(
+          `FocusTasks: okänd action "${params.action ?? ""}". Använd add, open eller complete.`
+        );
+    }
+  }
+}
+
+class FocusTasksSettingTab extends PluginSettingTab {
+  private plugin: FocusTasksPlugin;
+
+  constructor(app: App, plugin: FocusTasksPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    containerEl.createEl("h3", { text: "Uppgifter" });
+
+    new Setting(containerEl)
+      .setName("Format för ny metadata")
+      .setDesc(
+        "Används när en rad saknar metadata. Rader som redan har metadata skrivs tillbaka i sitt eget format."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("inline", "Dataview (due:: 2026-10-20)")
+          .addOption("bracket", "Dataview med hakparentes ([due:: 2026-10-20])")
+          .addOption("tasks", "Tasks-pluginet (📅 2026-10-20)")
+          .setValue(this.plugin.settings.metadataFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.metadataFormat = value as MetadataFormat;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Standardintervall för projektgranskning")
+      .setDesc(
+        "Används för projekt utan review-interval i frontmatter, t.ex. 1 week, 2 veckor, 14d eller monthly."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("1 week")
+          .setValue(this.plugin.settings.reviewInterval)
+          .onChange(async (newValue) => {
+            this.plugin.settings.reviewInterval =
+              newValue.trim() || DEFAULT_SETTINGS.reviewInterval;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Mallmapp")
+      .setDesc("Uppgifter i mallmappen indexeras aldrig.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Templates")
+          .setValue(this.plugin.settings.templatesFolder)
+          .onChange(async (newValue) => {
+            this.plugin.settings.templatesFolder = newValue.trim();
+            await this.plugin.saveSettings();
+            this.plugin.requestRescan();
+          })
+      );
+
+    containerEl.createEl("h3", { text: "Snabbinmatning" });
+
+    new Setting(containerEl)
+      .setName("Spara i")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("inbox", "Inkorgsanteckning")
+          .addOption("daily", "Dagens dagliga anteckning")
+          .setValue(this.plugin.settings.captureTarget)
+          .onChange(async (value) => {
+            this.plugin.settings.captureTarget = value as CaptureTarget;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Inkorgsanteckning")
+      .setDesc("Skapas om den saknas.")
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.captureNotePath)
+          .setValue(this.plugin.settings.captureNotePath)
+          .onChange(async (newValue) => {
+            this.plugin.settings.captureNotePath = newValue.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Rubrik")
+      .setDesc(
+        "Uppgiften läggs sist under rubriken, som skapas om den saknas. Tomt betyder slutet av anteckningen."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("## Inbox")
+          .setValue(this.plugin.settings.captureHeading)
+          .onChange(async (newValue) => {
+            this.plugin.settings.captureHeading = newValue.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Inkludera")
+      .setDesc(
+        "Ett mönster per rad, t.ex. Projekt/** eller Dagbok. Tomt betyder hela valvet."
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Projekt/**")
+          .setValue(this.plugin.settings.includePatterns.join("\n"))
+          .onChange(async (newValue) => {
+            this.plugin.settings.includePatterns = parsePatternList(newValue);
+            await this.plugin.saveSettings();
+            this.plugin.requestRescan();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Exkludera")
+      .setDesc(
+        "Ett mönster per rad, t.ex. Arkiv eller **/Referens*.md. Anteckningar med focustasks: ignore i frontmatter hoppas alltid över."
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Arkiv")
+          .setValue(this.plugin.settings.excludePatterns.join("\n"))
+          .onChange(async (newValue) => {
+            this.plugin.settings.excludePatterns = parsePatternList(newValue);
+            await this.plugin.saveSettings();
+            this.plugin.requestRescan();
+          })
+      );
+
+    containerEl.createEl("h3", { text: "Egna perspektiv" });
+    containerEl.createEl("p", {
+      text: 'Filter som t.ex. project = "Kund A" and due <= +7d and not #waiting. Fält: text, project, context, status, priority, tag, file, repeat, defer, planned, due, review, done (=, !=, ~, <, <=, >, >=). Flaggor: flagged, blocked, available, deferred, overdue. Kombinera med and, or, not och parenteser.'
+    });
+
+    this.plugin.settings.perspectives.forEach((perspective, index) => {
+      const setting = new Setting(containerEl).setName(
+        perspective.name || `Perspektiv ${index + 1}`
+      );
+      const updateError = (): void => {
+        const { error } = parseTaskQuery(perspective.query);
+        setting.setDesc(error ? `Ogiltigt filter: ${error}` : "");
+        setting.descEl.toggleClass("focus-tasks-query-error", !!error);
+      };
+      updateError();
+      setting.addText((text) =>
+        text
+          .setPlaceholder("Namn")
+          .setValue(perspective.name)
+          .onChange(async (newValue) => {
+            perspective.name = newValue.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+      setting.addText((text) =>
+        text
+          .setPlaceholder('project = "Kund A" and due <= +7d')
+          .setValue(perspective.query)
+          .onChange(async (newValue) => {
+            perspective.query = newValue;
+            updateError();
+            await this.plugin.saveSettings();
+          })
+      );
+      setting.addDropdown((dropdown) =>
+        dropdown
+          .addOption("none", "Ingen gruppering")
+          .addOption("project", "Per projekt")
+          .addOption("context", "Per kontext")
+          .addOption("tag", "Per tagg")
+          .addOption("date", "Per datum")
+          .setValue(perspective.grouping)
+          .onChange(async (value) => {
+            perspective.grouping = value as PerspectiveGrouping;
+            await this.plugin.saveSettings();
+          })
+      );
+      setting.addDropdown((dropdown) =>
+        dropdown
+          .addOption("date", "Sortera på datum")
+          .addOption("priority", "Sortera på prioritet")
+          .addOption("file", "Sortera på fil")
+          .addOption("text", "Sortera på titel")
+          .setValue(perspective.sort)
+          .onChange(async (value) => {
+            perspective.sort = value as PerspectiveSort;
+            await this.plugin.saveSettings();
+          })
+      );
+      setting.addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Ta bort perspektiv")
+          .onClick(async () => {
+            this.plugin.settings.perspectives.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Lägg till perspektiv").onClick(async () => {
+        this.plugin.settings.perspectives.push({
+          id: Date.now().toString(36),
+          name: "Nytt perspektiv",
+          query: "",
+          grouping: "none",
+          sort: "date"
+        });
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+
+    containerEl.createEl("h3", { text: "Kalendrar" });
+    containerEl.createEl("p", {
+      text: "Fyll i upp till 10 ICS‑URLer. Lämna tomt för att inaktivera."
+    });
+
+    new Setting(containerEl)
+      .setName("Antal dagar framåt")
+      .setDesc("Hur många dagar i framtiden kalendern ska visa (1–60)")
+      .addText((text) =>
+        text
+          .setPlaceholder("7")
+          .setValue(String(this.plugin.settings.calendarRangeDays))
+          .onChange(async (newValue) => {
+            const parsed = Number.parseInt(newValue, 10);
+            this.plugin.settings.calendarRangeDays = Number.isNaN(parsed)
+              ? DEFAULT_SETTINGS.calendarRangeDays
+              : Math.max(1, Math.min(60, parsed));
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Python‑kommando")
+      .setDesc("Används för OCR av handskrivna bilder")
+      .addText((text) =>
+        text
+          .setPlaceholder("python3")
+          .setValue(this.plugin.settings.pythonPath)
+          .onChange(async (newValue) => {
+            this.plugin.settings.pythonPath = newValue.trim() || "python3";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("OCR‑leverantör")
+      .setDesc("Välj Tesseract eller Google Cloud Vision")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("tesseract", "Tesseract")
+          .addOption("google", "Google Vision")
+          .addOption("openai", "OpenAI Vision")
+          .setValue(this.plugin.settings.ocrProvider)
+          .onChange(async (value) => {
+            this.plugin.settings.ocrProvider = value as
+              | "tesseract"
+              | "google"
+              | "openai";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Tesseract‑sökväg")
+      .setDesc("Ange full sökväg om Tesseract inte hittas i PATH")
+      .addText((text) =>
+        text
+          .setPlaceholder("/opt/homebrew/bin/tesseract")
+          .setValue(this.plugin.settings.tesseractPath)
+          .onChange(async (newValue) => {
+            this.plugin.settings.tesseractPath = newValue.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Google Vision API‑nyckel")
+      .setDesc("Krävs om du väljer Google Vision")
+      .addText((text) =>
+        text
+          .setPlaceholder("AIza...")
+          .setValue(this.plugin.settings.googleApiKey)
+          .onChange(async (newValue) => {
+            this.plugin.settings.googleApiKey = newValue.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("OpenAI API‑nyckel")
+      .setDesc("Krävs om du väljer OpenAI Vision")
+      .addText((text) =>
+        text
+          .setPlaceholder("sk-...")
+          .setValue(this.plugin.settings.openaiApiKey)
+          .onChange(async (newValue) => {
+            this.plugin.settings.openaiApiKey = newValue.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("OpenAI‑modell")
+      .setDesc("Exempel: gpt-4o-mini")
+      .addText((text) =>
+        text
+          .setPlaceholder("gpt-4o-mini")
+          .setValue(this.plugin.settings.openaiModel)
+          .onChange(async (newValue) => {
+            this.plugin.settings.openaiModel = newValue.trim() || "gpt-4o-mini";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Testa kalendrar")
+      .setDesc("Visar en snabb summering av ICS‑innehåll")
+      .addButton((button) =>
+        button.setButtonText("Kör test").onClick(async () => {
+          await this.plugin.debugCalendars();
+        })
+      );
+
+    const status = this.plugin.getCalendarStatus();
+    const statusText = status.lastRefresh
+      ? `Senast uppdaterad: ${status.lastRefresh}`
+      : "Ingen uppdatering ännu.";
+    containerEl.createEl("p", { text: statusText });
+    const stats = this.plugin.getCalendarStats();
+    containerEl.createEl("p", {
+      text: `Lyckade: ${stats.success} • Misslyckade: ${stats.failed}`
+    });
+    containerEl.createEl("p", {
+      text: `Events hittade: ${this.plugin.getCalendarEventCount()}`
+    });
+    containerEl.createEl("p", {
+      text: `Range: ${this.plugin.settings.calendarRangeDays} dagar`
+    });
+    if (status.lastError) {
+      containerEl.createEl("p", { text: status.lastError });
+    }
+
+    this.plugin.settings.calendarSources.forEach((source, index) => {
+      const setting = new Setting(containerEl).setName(`Kalender ${index + 1}`);
+      setting.addText((text) =>
+        text
+          .setPlaceholder("Namn")
+          .setValue(source.name)
+          .onChange(async (newValue) => {
+            this.plugin.settings.calendarSources[index].name = newValue.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+      setting.addText((text) =>
+        text
+          .setPlaceholder("ICS URL")
+          .setValue(source.url)
+          .onChange(async (newValue) => {
+            this.plugin.settings.calendarSources[index].url = newValue.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+    });
+  }
+}
+
+class QuickCaptureModal extends Modal {
+  private plugin: FocusTasksPlugin;
+
+  constructor(app: App, plugin: FocusTasksPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: "Snabbinmatning" });
+
+    const input = contentEl.createEl("input", {
+      type: "text",
+      attr: { placeholder: "Ring Anna @telefon #kund !fredag p:Kund A" }
+    });
+    input.addClass("focus-tasks-modal-input");
+
+    const preview = contentEl.createDiv("focus-tasks-capture-preview");
+    const heading = this.plugin.settings.captureHeading.replace(/^#+\s*/, "");
+    contentEl.createEl("div", {
+      text: `Sparas i ${this.plugin.getCapturePath()}${heading ? ` under ${heading}` : ""}`
+    }).addClass("focus-tasks-capture-target");
+
+    const updatePreview = (): void => {
+      preview.empty();
+      const { fields, errors } = parseCaptureInput(input.value);
+      if (!input.value.trim()) {
+        return;
+      }
+      const line = formatTaskLine(
+        "-",
+        "open",
+        fields,
+        "",
+        this.plugin.settings.metadataFormat
+      );
+      const match = TASK_LINE_REGEX.exec(line);
+      const parsed = parseTaskMetadata(match ? match[3] : line);
+      const entries: Array<[string, string | undefined]> = [
+        ["Titel", parsed.text],
+        ["Projekt", parsed.projects.join(", ")],
+        ["Kontext", parsed.context],
+        ["Förfaller", parsed.due],
+        ["Planerad", parsed.planned],
+        ["Start", parsed.defer],
+        ["Taggar", parsed.tags.join(" ")]
+      ];
+      for (const [label, value] of entries) {
+        if (value) {
+          preview.createEl("div", { text: `${label}: ${value}` });
+        }
+      }
+      preview.createEl("code", { text: line });
+      for (const error of errors) {
+        preview
+          .createEl("div", { text: error })
+          .addClass("focus-tasks-query-error");
+      }
+    };
+
+    const save = async (): Promise<void> => {
+      const { fields, errors } = parseCaptureInput(input.value);
+      if (errors.length > 0) {
+        new Notice(errors[0]);
+        return;
+      }
+      const file = await this.plugin.captureTask(fields);
+      new Notice(`Uppgiften sparades i ${file.basename}.`);
+      this.close();
+    };
+
+    input.addEventListener("input", updatePreview);
+    input.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        save().catch(console.error);
+      }
+    });
+
+    const saveButton = contentEl.createEl("button", { text: "Lägg till" });
+    saveButton.addClass("focus-tasks-modal-save");
+    saveButton.addEventListener("click", () => {
+      save().catch(console.error);
+    });
+
+    input.focus();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+class TaskEditModal extends Modal {
+  private plugin: FocusTasksPlugin;
+  private task: TaskItem;
+  private onSave?: () => void;
+
+  constructor(
+    app: App,
+    plugin: FocusTasksPlugin,
+    task: TaskItem,
+    onSave?: () => void
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.task = task;
+    this.onSave = onSave;
+  }
+
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: "Uppgift" });
+
+    const taskData = await this.loadTaskData();
+    if (!taskData) {
+      contentEl.createEl("p", { text: "Kunde inte läsa uppgiften." });
+      return;
+    }
+
+    const { task } = taskData;
+
+    const titleInput = contentEl.createEl("input", {
+      type: "text",
+      value: task.text,
+      attr: { placeholder: "Titel" }
+    });
+    titleInput.addClass("focus-tasks-modal-input");
+
+    const projectInput = contentEl.createEl("input", {
+      type: "text",
+      value: task.projects.join(", "),
+      attr: { placeholder: "Projekt (komma-separerat)" }
+    });
+    projectInput.addClass("focus-tasks-modal-input");
+
+    const contextInput = contentEl.createEl("input", {
+      type: "text",
+      value: task.context ?? "",
+      attr: { placeholder: "Kontext" }
+    });
+    contextInput.addClass("focus-tasks-modal-input");
+
+    const deferInput = this.createDateInput(contentEl, "Uppskjuten", task.defer);
+    const plannedInput = this.createDateInput(
+      contentEl,
+      "Planerad",
+      task.planned
+    );
+    const dueInput = this.createDateInput(contentEl, "Due", task.due);
+    const reviewInput = this.createDateInput(contentEl, "Review", task.review);
+
+    const repeatInput = contentEl.createEl("input", {
+      type: "text",
+      value: task.repeat ?? "",
+      attr: { placeholder: "Upprepa (t.ex. every 2 weeks, after 3 days)" }
+    });
+    repeatInput.addClass("focus-tasks-modal-input");
+
+    const tagsInput = contentEl.createEl("input", {
+      type: "text",
+      value: task.tags.join(", "),
+      attr: { placeholder: "Taggar (komma-separerat)" }
+    });
+    tagsInput.addClass("focus-tasks-modal-input");
+
+    const statusSelect = contentEl.createEl("select");
+    statusSelect.addClass("dropdown");
+    statusSelect.addClass("focus-tasks-modal-input");
+    for (const status of Object.keys(TASK_STATUS_LABELS) as TaskStatus[]) {
+      statusSelect.createEl("option", {
+        text: TASK_STATUS_LABELS[status],
+        value: status
+      });
+    }
+    statusSelect.value = task.status;
+
+    const prioritySelect = contentEl.createEl("select");
+    prioritySelect.addClass("dropdown");
+    prioritySelect.addClass("focus-tasks-modal-input");
+    prioritySelect.createEl("option", { text: "Ingen prioritet", value: "" });
+    for (const priority of Object.keys(TASK_PRIORITY_LABELS) as TaskPriority[]) {
+      prioritySelect.createEl("option", {
+        text: `Prioritet: ${TASK_PRIORITY_LABELS[priority]}`,
+        value: priority
+      });
+    }
+    prioritySelect.value = task.priority ?? "";
+
+    const saveButton = contentEl.createEl("button", { text: "Spara" });
+    saveButton.addClass("focus-tasks-modal-save");
+    saveButton.addEventListener("click", async () => {
+      const tags = normalizeTagList(tagsInput.value);
+      const dates = {
+        defer: parseDateInput(deferInput.value),
+        planned: parseDateInput(plannedInput.value),
+        due: parseDateInput(dueInput.value),
+        review: parseDateInput(reviewInput.value)
+      };
+      const invalidDate = Object.values(dates).find(
+        (date) => date.invalid !== undefined
+      );
+      if (invalidDate) {
+        new Notice(`Kunde inte tolka datum: ${invalidDate.invalid}`);
+        return;
+      }
+      const repeat = repeatInput.value.trim();
+      if (repeat && !parseRepeatRule(repeat)) {
+        new Notice(`Okänd upprepning: ${repeat}`);
+        return;
+      }
+      const saved = await this.plugin.history.track(
+        `Ändrade "${task.text}"`,
+        [taskData.taskRef.file],
+        () =>
+          updateTaskInFile(
+            this.app,
+            taskData.taskRef,
+            {
+              text: titleInput.value.trim() || task.text,
+              projects: parseProjectList(projectInput.value),
+              context: contextInput.value.trim() || undefined,
+              defer: dates.defer.value,
+              planned: dates.planned.value,
+              due: dates.due.value,
+              review: dates.review.value,
+              repeat: repeat || undefined,
+              status: statusSelect.value as TaskStatus,
+              priority: (prioritySelect.value as TaskPriority) || undefined,
+              tags
+            },
+            this.plugin.settings.metadataFormat
+          )
+      );
+      if (!saved) {
+        return;
+      }
+      this.onSave?.();
+      this.close();
+    });
+
+    const moveButton = contentEl.createEl("button", { text: "Flytta till…" });
+    moveButton.addClass("focus-tasks-modal-move");
+    moveButton.addEventListener("click", () => {
+      new TaskMoveModal(this.app, async (target) => {
+        const moved = await this.plugin.history.track(
+          `Flyttade "${task.text}"`,
+          [taskData.taskRef.file, target.file],
+          () => moveTaskToTarget(this.app, taskData.taskRef, target)
+        );
+        if (!moved) {
+          return;
+        }
+        this.onSave?.();
+        this.close();
+      }).open();
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private createDateInput(
+    container: HTMLElement,
+    label: string,
+    value?: string
+  ): HTMLInputElement {
+    const wrap = container.createDiv("focus-tasks-modal-date");
+    const input = wrap.createEl("input", {
+      type: "text",
+      value: value ?? "",
+      attr: { placeholder: `${label} (t.ex. imorgon, nästa fredag, +2w)` }
+    });
+    input.addClass("focus-tasks-modal-input");
+    const hint = wrap.createEl("span");
+    hint.addClass("focus-tasks-modal-date-hint");
+    const updateHint = (): void => {
+      const parsed = parseDateInput(input.value);
+      hint.setText(
+        parsed.invalid !== undefined
+          ? "Okänt datum"
+          : parsed.value && parsed.value !== input.value.trim()
+          ? parsed.value
+          : ""
+      );
+      hint.toggleClass("is-invalid", parsed.invalid !== undefined);
+    };
+    input.addEventListener("input", updateHint);
+    updateHint();
+    return input;
+  }
+
+  private async loadTaskData(): Promise<
+    | { task: TaskItem; taskRef: TaskItem }
+    | undefined
+  > {
+    const content = await this.app.vault.read(this.task.file);
+    const lines = content.split(/\r?\n/);
+    const index = findTaskLineIndex(lines, this.task);
+    if (index === undefined) {
+      notifyTaskNotFound(this.task);
+      return undefined;
+    }
+
+    const match = TASK_LINE_REGEX.exec(lines[index]);
+    if (!match) {
+      return undefined;
+    }
+    const task = createTaskItem(this.task.file, index, match[2], match[3]);
+    return { task, taskRef: task };
+  }
+}
+
+class TaskMoveModal extends FuzzySuggestModal<TaskMoveTarget> {
+  private onChoose: (target: TaskMoveTarget) => void;
+
+  constructor(app: App, onChoose: (target: TaskMoveTarget) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Flytta till anteckning eller rubrik…");
+  }
+
+  getItems(): TaskMoveTarget[] {
+    return this.app.vault
+      .getMarkdownFiles()
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .flatMap((file) => [
+        { file },
+        ...(this.app.metadataCache.getFileCache(file)?.headings ?? []).map(
+          (heading) => ({
+            file,
+            heading: heading.heading,
+            level: heading.level,
+            line: heading.position.start.line
+          })
+        )
+      ]);
+  }
+
+  getItemText(target: TaskMoveTarget): string {
+    const path = target.file.path.replace(/\.md$/, "");
+    return target.heading ? `${path} › ${target.heading}` : path;
+  }
+
+  onChooseItem(target: TaskMoveTarget): void {
+    this.onChoose(target);
+  }
+}
+
+class TextPromptModal extends Modal {
+  private title: string;
+  private placeholder: string;
+  private onSubmit: (value: string) => void;
+
+  constructor(
+    app: App,
+    title: string,
+    placeholder: string,
+    onSubmit: (value: string) => void
+  ) {
+    super(app);
+    this.title = title;
+    this.placeholder = placeholder;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: this.title });
+
+    const input = contentEl.createEl("input", {
+      type: "text",
+      attr: { placeholder: this.placeholder }
+    });
+    input.addClass("focus-tasks-modal-input");
+
+    const submit = (): void => {
+      this.close();
+      this.onSubmit(input.value.trim());
+    };
+    input.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        submit();
+      }
+    });
+
+    const saveButton = contentEl.createEl("button", { text: "Spara" });
+    saveButton.addClass("focus-tasks-modal-save");
+    saveButton.addEventListener("click", submit);
+    input.focus();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+class ConfirmModal extends Modal {
+  private message: string;
+  private confirmText: string;
+  private onConfirm: () => void;
+
+  constructor(
+    app: App,
+    message: string,
+    confirmText: string,
+    onConfirm: () => void
+  ) {
+    super(app);
+    this.message = message;
+    this.confirmText = confirmText;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("p", { text: this.message });
+
+    const confirmButton = contentEl.createEl("button", {
+      text: this.confirmText
+    });
+    confirmButton.addClass("mod-warning");
+    confirmButton.addEventListener("click", () => {
+      this.close();
+      this.onConfirm();
+    });
+
+    const cancelButton = contentEl.createEl("button", { text: "Avbryt" });
+    cancelButton.addClass("focus-tasks-modal-move");
+    cancelButton.addEventListener("click", () => this.close());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+class HierarchyRenameModal extends Modal {
+  private kind: HierarchyKind;
+  private path: string;
+  private tasks: TaskItem[];
+  private onSubmit: (newPath: string) => void;
+
+  constructor(
+    app: App,
+    kind: HierarchyKind,
+    path: string,
+    tasks: TaskItem[],
+    onSubmit: (newPath: string) => void
+  ) {
+    super(app);
+    this.kind = kind;
+    this.path = path;
+    this.tasks = tasks;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", {
+      text: this.kind === "tag" ? "Byt namn på tagg" : "Byt namn på kontext"
+    });
+
+    const fileCount = new Set(this.tasks.map((task) => task.file.path)).size;
+    contentEl.createEl("p", {
+      text: `${this.tasks.length} uppgifter i ${fileCount} filer skrivs om, inklusive underliggande nivåer.`
+    });
+
+    const input = contentEl.createEl("input", {
+      type: "text",
+      value: this.path
+    });
+    input.addClass("focus-tasks-modal-input");
+
+    const submit = (): void => {
+      const newPath = normalizeHierarchyPath(input.value, this.kind);
+      if (!newPath) {
+        new Notice("Ange ett namn.");
+        return;
+      }
+      this.close();
+      if (newPath !== this.path) {
+        this.onSubmit(newPath);
+      }
+    };
+
+    input.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        submit();
+      }
+    });
+
+    const saveButton = contentEl.createEl("button", { text: "Byt namn" });
+    saveButton.addClass("focus-tasks-modal-save");
+    saveButton.addEventListener("click", submit);
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+function findNearestTaskLine(editor: any, startLine: number): number | undefined {
+  const isTaskLine = (lineText: string): boolean =>
+    TASK_LINE_REGEX.test(lineText);
+
+  const current = editor.getLine(startLine);
+  if (isTaskLine(current)) {
+    return startLine;
+  }
+
+  for (let i = startLine - 1; i >= 0; i -= 1) {
+    if (isTaskLine(editor.getLine(i))) {
+      return i;
+    }
+    if (!editor.getLine(i).trim()) {
+      break;
+    }
+  }
+
+  return undefined;
+}
+
+function isPathIndexed(path: string, rules: TaskScanRules): boolean {
+  if (rules.templatesFolder && matchesPathPattern(path, rules.templatesFolder)) {
+    return false;
+  }
+  if (
+    rules.includePatterns.length > 0 &&
+    !rules.includePatterns.some((pattern) => matchesPathPattern(path, pattern))
+  ) {
+    return false;
+  }
+  return !rules.excludePatterns.some((pattern) =>
+    matchesPathPattern(path, pattern)
+  );
+}
+
+function matchesPathPattern(path: string, pattern: string): boolean {
+  const normalized = pattern.trim().replace(/^\/+|\/+$/g, "");
+  if (!normalized) {
+    return false;
+  }
+  if (!/[*?]/.test(normalized)) {
+    return path === normalized || path.startsWith(`${normalized}/`);
+  }
+  const source = normalized
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) =>
+      part === "**/"
+        ? "(?:.*/)?"
+        : part === "**"
+        ? ".*"
+        : part === "*"
+        ? "[^/]*"
+        : part === "?"
+        ? "[^/]"
+        : part.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}(?:/.*)?$`).test(path);
+}
+
+function parsePatternList(value: string): string[] {
+  return value
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line);
+}
+
+function isIgnoredByFrontmatter(content: string): boolean {
+  const frontmatter = /^---\r?\n([\s\S]*?)\r?\n---/.exec(content);
+  return (
+    !!frontmatter &&
+    /^focustasks:\s*["']?ignore["']?\s*$/im.test(frontmatter[1])
+  );
+}
+
+function parseFileContent(
+  file: TFile,
+  content: string
+): { tasks: TaskItem[]; projectType?: ProjectType } {
+  if (isIgnoredByFrontmatter(content)) {
+    return { tasks: [] };
+  }
+  return {
+    tasks: parseTasksFromContent(file, content),
+    projectType: parseProjectTypeField(content)
+  };
+}
+
+function parseTasksFromContent(file: TFile, content: string): TaskItem[] {
+  const tasks: TaskItem[] = [];
+  const lines = content.split(/\r?\n/);
+
+  const parents: Array<{ indent: number; task: TaskItem }> = [];
+
+  for (let i = 0; i < lines.length; i += 1) {
+    const lineText = lines[i];
+    if (!lineText.trim()) {
+      parents.length = 0;
+      continue;
+    }
+
+    const indent = getIndentation(lineText);
+    while (parents.length > 0 && parents[parents.length - 1].indent >= indent) {
+      parents.pop();
+    }
+    const parent = parents[parents.length - 1]?.task;
+
+    const match = TASK_LINE_REGEX.exec(lineText);
+    if (match && parseTaskMetadata(match[3].trim()).text) {
+      const task = createTaskItem(file, i, match[2], match[3]);
+      if (parent) {
+        task.parent = parent;
+        parent.children.push(task);
+      }
+      tasks.push(task);
+      parents.push({ indent, task });
+      continue;
+    }
+
+    if (!parent) {
+      continue;
+    }
+
+    const bulletMatch = /^\s*[-*]\s+(.*)$/.exec(lineText);
+    const noteText = bulletMatch ? bulletMatch[1].trim() : lineText.trim();
+    if (noteText) {
+      parent.subitems.push({ text: noteText });
+    }
+  }
+
+  return tasks;
+}
+
+function createTaskItem(
+  file: TFile,
+  lineIndex: number,
+  checkbox: string,
+  body: string
+): TaskItem {
+  const parsed = parseTaskMetadata(body.trim());
+  return {
+    file,
+    line: lineIndex + 1,
+    text: parsed.text,
+    status: parseTaskStatus(checkbox),
+    projects: parsed.projects,
+    context: parsed.context,
+    defer: parsed.defer,
+    planned: parsed.planned,
+    due: parsed.due,
+    review: parsed.review,
+    repeat: parsed.repeat,
+    done: parsed.done,
+    blockedBy: parsed.blockedBy,
+    flagged: parsed.flagged,
+    priority: parsed.priority,
+    tags: parsed.tags,
+    subitems: [],
+    children: [],
+    blockId: parsed.blockId,
+    fingerprint: createTaskFingerprint(body)
+  };
+}
+
+function createTaskFingerprint(body: string): string {
+  const normalized = normalizeTaskText(extractBlockId(body).text);
+  let hash = 5381;
+  for (let i = 0; i < normalized.length; i += 1) {
+    hash = ((hash << 5) + hash + normalized.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function findTaskLineIndex(lines: string[], task: TaskItem): number | undefined {
+  const candidates: number[] = [];
+  for (let i = 0; i < lines.length; i += 1) {
+    const match = TASK_LINE_REGEX.exec(lines[i]);
+    if (!match) {
+      continue;
+    }
+    const blockId = extractBlockId(match[3]).blockId;
+    if (task.blockId) {
+      if (blockId === task.blockId) {
+        return i;
+      }
+      continue;
+    }
+    if (createTaskFingerprint(match[3]) === task.fingerprint) {
+      if (i === task.line - 1) {
+        return i;
+      }
+      candidates.push(i);
+    }
+  }
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+function generateBlockId(lines: string[]): string {
+  const existing = new Set<string>();
+  for (const line of lines) {
+    const blockId = extractBlockId(line).blockId;
+    if (blockId) {
+      existing.add(blockId);
+    }
+  }
+  let blockId = "";
+  do {
+    blockId = `ft-${Math.random().toString(36).slice(2, 8)}`;
+  } while (existing.has(blockId));
+  return blockId;
+}
+
+function notifyTaskNotFound(task: TaskItem): void {
+  new Notice(
+    `Uppgiften "${task.text}" hittades inte längre i ${task.file.basename}. Den kan ha ändrats eller flyttats – uppdatera och försök igen.`
+  );
+}
+
+function areTaskListsEqual(a: TaskItem[], b: TaskItem[]): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  return a.every(
+    (task, index) => serializeTask(task) === serializeTask(b[index])
+  );
+}
+
+function serializeTask(task: TaskItem): string {
+  const { file, parent, children, ...rest } = task;
+  return JSON.stringify({ ...rest, parentLine: parent?.line });
+}
+
+function parseTaskMetadata(rawText: string): {
+  text: string;
+  projects: string[];
+  context?: string;
+  defer?: string;
+  planned?: string;
+  due?: string;
+  review?: string;
+  repeat?: string;
+  created?: string;
+  done?: string;
+  blockedBy?: string[];
+  flagged: boolean;
+  priority?: TaskPriority;
+  tags: string[];
+  blockId?: string;
+} {
+  const blockIdResult = extractBlockId(rawText);
+  const emojiResult = extractTasksEmojiFields(blockIdResult.text);
+  const priorityEmojiResult = extractTasksPriority(emojiResult.text);
+  let text = priorityEmojiResult.text;
+  let context: string | undefined;
+  let defer: string | undefined;
+  let planned: string | undefined;
+  let due: string | undefined;
+  let review: string | undefined;
+  let repeat: string | undefined;
+  let created: string | undefined;
+  let done: string | undefined;
+  let blockedBy: string[] | undefined;
+  let flagged = false;
+  let priority: TaskPriority | undefined;
+
+  const projectResult = extractAllMetadata(text, "project");
+  const projectAlt = extractAllMetadata(projectResult.text, "projekt");
+  const projects = Array.from(
+    new Set(
+      [...projectResult.values, ...projectAlt.values].flatMap((value) =>
+        parseProjectList(value)
+      )
+    )
+  );
+  text = projectAlt.text;
+
+  const contextResult = extractMetadata(text, "context");
+  if (contextResult.value) {
+    context = normalizeContextName(contextResult.value);
+    text = contextResult.text;
+  } else {
+    const contextAlt = extractMetadata(text, "område");
+    context = contextAlt.value
+      ? normalizeContextName(contextAlt.value)
+      : undefined;
+    text = contextAlt.text;
+  }
+
+  const createdResult = extractMetadata(text, "created");
+  created = createdResult.value ?? emojiResult.fields.created;
+  text = createdResult.text;
+
+  const deferResult = extractMetadata(text, "defer");
+  defer = deferResult.value ?? emojiResult.fields.defer;
+  text = deferResult.text;
+
+  const plannedResult = extractMetadata(text, "planned");
+  planned = plannedResult.value ?? emojiResult.fields.planned;
+  text = plannedResult.text;
+
+  const dueResult = extractMetadata(text, "due");
+  due = dueResult.value ?? emojiResult.fields.due;
+  text = dueResult.text;
+
+  const doneResult = extractMetadata(text, "done");
+  done = doneResult.value ?? emojiResult.fields.done;
+  text = doneResult.text;
+
+  const reviewResult = extractMetadata(text, "review");
+  review = reviewResult.value;
+  text = reviewResult.text;
+
+  const repeatResult = extractMetadata(text, "repeat");
+  repeat = repeatResult.value ?? emojiResult.fields.repeat;
+  text = repeatResult.text;
+
+  const blockedByResult = extractMetadata(text, "blockedBy");
+  blockedBy = blockedByResult.value
+    ? parseBlockIdList(blockedByResult.value)
+    : undefined;
+  text = blockedByResult.text;
+
+  const flagResult = extractMetadata(text, "flag");
+  flagged = parseFlagValue(flagResult.value);
+  text = flagResult.text;
+
+  const priorityResult = extractMetadata(text, "priority");
+  priority =
+    parseTaskPriority(priorityResult.value) ?? priorityEmojiResult.priority;
+  text = priorityResult.text;
+
+  const tagResult = extractTags(text);
+  text = tagResult.text;
+
+  return {
+    text: text.trim(),
+    projects,
+    context,
+    defer,
+    planned,
+    due,
+    review,
+    repeat,
+    created,
+    done,
+    blockedBy,
+    flagged,
+    priority,
+    tags: tagResult.tags,
+    blockId: blockIdResult.blockId
+  };
+}
+
+function parseCaptureInput(
+  input: string,
+  today = getLocalDateString()
+): { fields: TaskLineFields; errors: string[] } {
+  const errors: string[] = [];
+  const projects: string[] = [];
+  let context: string | undefined;
+  let due: string | undefined;
+  const unquote = (value: string): string => value.replace(/^"(.*)"$/, "$1");
+
+  const text = input
+    .replace(
+      /(?:^|\s)p:("[^"]*"|.+?)(?=\s(?:[@#!]|p:|[\wåäö]+::)|$)/giu,
+      (_, value: string) => {
+        projects.push(...parseProjectList(unquote(value)));
+        return " ";
+      }
+    )
+    .replace(/(?:^|\s)@([^\s@#!]+)/gu, (_, value: string) => {
+      context = normalizeContextName(value);
+      return " ";
+    })
+    .replace(/(?:^|\s)!("[^"]*"|\S+)/gu, (_, value: string) => {
+      due = parseNaturalDate(unquote(value), today);
+      if (!due) {
+        errors.push(`Kunde inte tolka datum: ${unquote(value)}`);
+      }
+      return " ";
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const parsed = parseTaskMetadata(text);
+  if (!parsed.text) {
+    errors.push("Uppgiften saknar titel.");
+  }
+  return {
+    fields: {
+      text: parsed.text,
+      projects: Array.from(new Set([...parsed.projects, ...projects])),
+      context: context ?? parsed.context,
+      defer: parsed.defer,
+      planned: parsed.planned,
+      due: due ?? parsed.due,
+      review: parsed.review,
+      repeat: parsed.repeat,
+      created: parsed.created,
+      blockedBy: parsed.blockedBy,
+      flagged: parsed.flagged,
+      priority: parsed.priority,
+      tags: parsed.tags
+    },
+    errors
+  };
+}
+
+function parseProtocolTask(params: Record<string, string | undefined>): {
+  fields?: TaskLineFields;
+  errors: string[];
+} {
+  const text = params.text?.trim();
+  if (!text) {
+    return { errors: ["Parametern text saknas."] };
+  }
+  const { fields, errors } = parseCaptureInput(text);
+  for (const key of ["defer", "planned", "due"] as const) {
+    const value = params[key];
+    if (value === undefined) {
+      continue;
+    }
+    const parsed = parseDateInput(value);
+    if (parsed.invalid) {
+      errors.push(`Kunde inte tolka ${key}: ${parsed.invalid}.`);
+    } else {
+      fields[key] = parsed.value;
+    }
+  }
+  if (params.project) {
+    fields.projects = Array.from(
+      new Set([...(fields.projects ?? []), ...parseProjectList(params.project)])
+    );
+  }
+  if (params.context) {
+    fields.context = normalizeContextName(params.context);
+  }
+  if (params.tags) {
+    fields.tags = Array.from(
+      new Set([...fields.tags, ...normalizeTagList(params.tags)])
+    );
+  }
+  if (params.priority) {
+    const priority = parseTaskPriority(params.priority);
+    if (priority) {
+      fields.priority = priority;
+    } else {
+      errors.push(`Okänd prioritet: ${params.priority}. Använd highest, high, medium, low eller lowest.`);
+    }
+  }
+  if (params.flag !== undefined) {
+    fields.flagged = parseFlagValue(params.flag || "true");
+  }
+  return { fields, errors };
+}
+
+function resolveFocusTasksSection(
+  value: string,
+  perspectives: CustomPerspective[]
+): FocusTasksSection | undefined {
+  const normalized = value.trim().toLowerCase();
+  const section = FOCUS_TASKS_SECTIONS.find((section) => section === normalized);
+  if (section) {
+    return section;
+  }
+  const perspective = perspectives.find(
+    (perspective) =>
+      perspective.id === value.trim() ||
+      perspective.name.trim().toLowerCase() === normalized
+  );
+  return perspective ? `perspective:${perspective.id}` : undefined;
+}
+
+function getDailyNotePath(app: App): string {
+  const options =
+    (app as DailyNotesApp).internalPlugins?.getPluginById("daily-notes")
+      ?.instance?.options ?? {};
+  const folder = (options.folder ?? "").trim().replace(/^\/+|\/+$/g, "");
+  const today = moment.utc().local();
+  const name = `${today.format(options.format || "YYYY-MM-DD")}.md`;
+  return normalizePath(folder ? `${folder}/${name}` : name);
+}
+
+async function createNote(app: App, path: string): Promise<TFile> {
+  const folder = path.split("/").slice(0, -1).join("/");
+  if (folder && !app.vault.getAbstractFileByPath(folder)) {
+    await app.vault.createFolder(folder);
+  }
+  return app.vault.create(path, "");
+}
+
+function insertLinesUnderHeading(
+  content: string,
+  heading: string,
+  inserted: string[],
+  line?: number
+): string {
+  const lines = content.split(/\r?\n/);
+  while (lines.length > 0 && lines[lines.length - 1].trim() === "") {
+    lines.pop();
+  }
+  const title = heading.replace(/^#+\s*/, "").trim();
+  if (!title) {
+    return [...lines, ...inserted, ""].join("\n");
+  }
+
+  const isTitle = (text: string | undefined) => {
+    const match = /^#{1,6}\s+(.*?)\s*$/.exec(text ?? "");
+    return !!match && match[1].toLowerCase() === title.toLowerCase();
+  };
+  const headingIndex =
+    line !== undefined && isTitle(lines[line])
+      ? line
+      : lines.findIndex((text) => isTitle(text));
+  if (headingIndex === -1) {
+    const marker = /^#{1,6}(?=\s)/.exec(heading.trim())?.[0] ?? "##";
+    return [
+      ...lines,
+      ...(lines.length > 0 ? [""] : []),
+      `${marker} ${title}`,
+      ...inserted,
+      ""
+    ].join("\n");
+  }
+
+  const level = /^#+/.exec(lines[headingIndex])?.[0].length ?? 1;
+  let end = lines.findIndex((text, index) => {
+    const match = /^(#{1,6})\s/.exec(text);
+    return index > headingIndex && !!match && match[1].length <= level;
+  });
+  if (end === -1) {
+    end = lines.length;
+  }
+  while (end > headingIndex + 1 && lines[end - 1].trim() === "") {
+    end -= 1;
+  }
+  lines.splice(end, 0, ...inserted);
+  return [...lines, ""].join("\n");
+}
+
+function extractBlockId(text: string): { text: string; blockId?: string } {
+  const match = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/.exec(text);
+  if (!match) {
+    return { text };
+  }
+  if (/(?:blockedBy::|,)\s*$/i.test(text.slice(0, match.index))) {
+    return { text };
+  }
+  return {
+    text: text.slice(0, match.index).trimEnd(),
+    blockId: match[1]
+  };
+}
+
+function parseBlockIdList(value: string): string[] {
+  const ids = value
+    .split(",")
+    .map(
+      (part) =>
+        /^(?:\[\[[^\]#]*#)?\^([A-Za-z0-9-]+)(?:\]\])?$/.exec(part.trim())?.[1] ??
+        ""
+    )
+    .filter((part) => part);
+  return Array.from(new Set(ids));
+}
+
+function extractMetadata(
+  text: string,
+  key:
+    | "project"
+    | "projekt"
+    | "context"
+    | "område"
+    | "defer"
+    | "planned"
+    | "due"
+    | "review"
+    | "repeat"
+    | "created"
+    | "done"
+    | "blockedBy"
+    | "flag"
+    | "priority"
+): { text: string; value?: string } {
+  const bracketRegex = new RegExp(
+    `[\\[(]${key}::\\s*((?:\\[\\[[^\\]]*\\]\\]|[^\\])])*)[\\])]`,
+    "iu"
+  );
+  const inlineRegex = new RegExp(
+    `(?:^|\\s)${key}::\\s*([^\\n]+?)(?=\\s+[\\p{L}\\w-]+::|\\s+[\\[(][\\p{L}\\w-]+::|\\s+#[-\\w/]|$)`,
+    "iu"
+  );
+  const match = bracketRegex.exec(text) ?? inlineRegex.exec(text);
+  if (!match) {
+    return { text };
+  }
+  let value = match[1].trim();
+  if (
+    key === "created" ||
+    key === "defer" ||
+    key === "planned" ||
+    key === "due" ||
+    key === "done" ||
+    key === "review"
+  ) {
+    value = normalizeDateString(value);
+  }
+  return {
+    text: text.replace(match[0], " "),
+    value
+  };
+}
+
+function extractAllMetadata(
+  text: string,
+  key: Parameters<typeof extractMetadata>[1]
+): { text: string; values: string[] } {
+  const values: string[] = [];
+  let result = extractMetadata(text, key);
+  while (result.text !== text) {
+    if (result.value) {
+      values.push(result.value);
+    }
+    text = result.text;
+    result = extractMetadata(text, key);
+  }
+  return { text, values };
+}
+
+function extractTasksEmojiFields(text: string): {
+  text: string;
+  fields: Partial<Record<TasksEmojiField, string>>;
+} {
+  const fields: Partial<Record<TasksEmojiField, string>> = {};
+  let result = text;
+  for (const [field, emoji] of Object.entries(TASKS_EMOJI) as Array<
+    [TasksEmojiField, string]
+  >) {
+    const valuePattern =
+      field === "repeat"
+        ? `([^#^\\n]+?)(?=\\s*(?:${TASKS_SIGNIFIER_PATTERN}|#|\\^|$))`
+        : "(\\d{4}-\\d{2}-\\d{2})";
+    const regex = new RegExp(`\\s*${emoji}\\uFE0F?\\s*${valuePattern}`, "u");
+    const match = regex.exec(result);
+    if (!match) {
+      continue;
+    }
+    fields[field] = match[1].trim();
+    result = result.replace(match[0], " ");
+  }
+  return { text: result, fields };
+}
+
+function extractTasksPriority(text: string): {
+  text: string;
+  priority?: TaskPriority;
+} {
+  const match = /\s*(🔺|⏫|🔼|🔽|⏬)\uFE0F?/u.exec(text);
+  if (!match) {
+    return { text };
+  }
+  const priority = (Object.keys(TASKS_PRIORITY_EMOJI) as TaskPriority[]).find(
+    (key) => TASKS_PRIORITY_EMOJI[key] === match[1]
+  );
+  return { text: text.replace(match[0], " "), priority };
+}
+
+function parseFlagValue(value?: string): boolean {
+  if (!value) {
+    return false;
+  }
+  return ["true", "yes", "ja", "1", "x"].includes(value.trim().toLowerCase());
+}
+
+function parseTaskPriority(value?: string): TaskPriority | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (["highest", "högsta"].includes(normalized)) {
+    return "highest";
+  }
+  if (["lowest", "lägsta"].includes(normalized)) {
+    return "lowest";
+  }
+  if (["high", "hög"].includes(normalized)) {
+    return "high";
+  }
+  if (["medium", "medel"].includes(normalized)) {
+    return "medium";
+  }
+  if (["low", "låg"].includes(normalized)) {
+    return "low";
+  }
+  return undefined;
+}
+
+function detectMetadataFormat(body: string): MetadataFormat | undefined {
+  if (new RegExp(TASKS_SIGNIFIER_PATTERN, "u").test(body)) {
+    return "tasks";
+  }
+  if (/[\[(][\p{L}\w-]+::/u.test(body)) {
+    return "bracket";
+  }
+  if (/(?:^|\s)[\p{L}\w-]+::/u.test(body)) {
+    return "inline";
+  }
+  return undefined;
+}
+
+function detectFieldFormat(
+  body: string,
+  key: string
+): MetadataFormat | undefined {
+  if (new RegExp(`[\\[(]${key}::`, "iu").test(body)) {
+    return "bracket";
+  }
+  if (new RegExp(`(?:^|\\s)${key}::`, "iu").test(body)) {
+    return "inline";
+  }
+  return undefined;
+}
+
+function extractTags(text: string): { text: string; tags: string[] } {
+  const tags = text.match(/#[-\w/]+/g);
+  if (!tags) {
+    return { text, tags: [] };
+  }
+  const unique = Array.from(new Set(tags.map((tag) => normalizeTag(tag))));
+  const cleaned = text.replace(/#[-\w/]+/g, " ").replace(/\s+/g, " ");
+  return { text: cleaned, tags: unique };
+}
+
+function getLocalDateString(addDays = 0): string {
+  const date = new Date();
+  date.setDate(date.getDate() + addDays);
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+function parseDateInput(value: string): { value?: string; invalid?: string } {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return {};
+  }
+  const parsed = parseNaturalDate(trimmed);
+  return parsed ? { value: parsed } : { invalid: trimmed };
+}
+
+function parseNaturalDate(
+  value: string,
+  today = getLocalDateString()
+): string | undefined {
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, " ");
+  if (/^\d{4}-\d{2}-\d{2}$/.test(normalized)) {
+    return formatDate(startOfDay(normalized)) === normalized
+      ? normalized
+      : undefined;
+  }
+
+  const relativeDays: Record<string, number> = {
+    idag: 0,
+    "i dag": 0,
+    today: 0,
+    imorgon: 1,
+    "i morgon": 1,
+    tomorrow: 1,
+    "i övermorgon": 2,
+    övermorgon: 2,
+    igår: -1,
+    "i går": -1,
+    yesterday: -1
+  };
+  if (normalized in relativeDays) {
+    return adjustDate(today, relativeDays[normalized]);
+  }
+
+  const weekdayMatch =
+    /^(?:(?:nästa|next|på|on|this|denna) )?([a-zåäö]+)$/.exec(normalized);
+  const weekday = weekdayMatch ? WEEKDAY_NAMES[weekdayMatch[1]] : undefined;
+  if (weekday !== undefined) {
+    const current = startOfDay(today).getDay();
+    const diff = (weekday - current + 7) % 7 || 7;
+    return adjustDate(today, diff);
+  }
+
+  if (["nästa vecka", "next week"].includes(normalized)) {
+    const current = startOfDay(today).getDay();
+    return adjustDate(today, ((1 - current + 7) % 7) || 7);
+  }
+  if (["nästa månad", "next month"].includes(normalized)) {
+    const [year, month] = today.split("-").map(Number);
+    return formatDate(new Date(year, month, 1));
+  }
+  if (["end of week", "slutet av veckan", "veckoslut"].includes(normalized)) {
+    const current = startOfDay(today).getDay();
+    return adjustDate(today, (7 - current) % 7);
+  }
+  if (["end of month", "slutet av månaden", "månadsslut"].includes(normalized)) {
+    const [year, month] = today.split("-").map(Number);
+    return formatDate(new Date(year, month, 0));
+  }
+  if (["end of year", "slutet av året", "årsskifte"].includes(normalized)) {
+    return `${today.slice(0, 4)}-12-31`;
+  }
+
+  const offsetMatch =
+    /^(?:(?:om|in) (\d+) ?([a-zåäö]+)|([+-])(\d+) ?([dwmy]))$/.exec(
+      normalized
+    );
+  if (!offsetMatch) {
+    return undefined;
+  }
+  const amount = offsetMatch[1]
+    ? Number.parseInt(offsetMatch[1], 10)
+    : Number.parseInt(offsetMatch[4], 10) * (offsetMatch[3] === "-" ? -1 : 1);
+  const unit = offsetMatch[2]
+    ? DATE_UNIT_NAMES[offsetMatch[2]]
+    : offsetMatch[5];
+  switch (unit) {
+    case "d":
+      return adjustDate(today, amount);
+    case "w":
+      return adjustDate(today, amount * 7);
+    case "m": {
+      const [year, month, day] = today.split("-").map(Number);
+      const lastDay = new Date(year, month + amount, 0).getDate();
+      return formatDate(
+        new Date(year, month - 1 + amount, Math.min(day, lastDay))
+      );
+    }
+    case "y": {
+      const [year, month, day] = today.split("-").map(Number);
+      const lastDay = new Date(year + amount, month, 0).getDate();
+      return formatDate(
+        new Date(year + amount, month - 1, Math.min(day, lastDay))
+      );
+    }
+    default:
+      return undefined;
+  }
+}
+
+function getInvalidDateFields(task: TaskItem): string[] {
+  const fields: Array<[string, string | undefined]> = [
+    ["defer", task.defer],
+    ["planned", task.planned],
+    ["due", task.due],
+    ["review", task.review]
+  ];
+  return fields
+    .filter(([, value]) => value && !parseDate(value))
+    .map(([key, value]) => `${key}:: ${value}`);
+}
+
+function normalizeDateString(value: string): string {
+  const token = value.split(/\s+/)[0];
+  if (/^\d{4}-\d{2}-\d{2}$/.test(token)) {
+    return token;
+  }
+  return value.trim();
+}
+
+function normalizeProjectName(value: string): string {
+  const trimmed = value.trim();
+  const wikilinkMatch = /\[\[([^\]]+)\]\]/.exec(trimmed);
+  if (wikilinkMatch) {
+    return wikilinkMatch[1].trim();
+  }
+  return trimmed.replace(/#[-\w/]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function normalizeContextName(value: string): string {
+  return normalizeProjectName(value)
+    .split("/")
+    .map((part) => part.trim())
+    .filter((part) => part)
+    .join("/");
+}
+
+function normalizeTag(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return "";
+  }
+  const withHash = trimmed.startsWith("#") ? trimmed : `#${trimmed}`;
+  return withHash.toLowerCase();
+}
+
+function normalizeTagList(value: string): string[] {
+  const parts = value
+    .split(/[,\s]+/)
+    .map((part) => normalizeTag(part))
+    .filter((part) => part);
+  return Array.from(new Set(parts));
+}
+
+function normalizeTaskText(value: string): string {
+  return value.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function extractImagePath(lineText: string): string | undefined {
+  const wikiMatch = /!\[\[(.+?)\]\]/.exec(lineText);
+  if (wikiMatch) {
+    return sanitizeLinkPath(wikiMatch[1]);
+  }
+  const mdMatch = /!\[[^\]]*\]\((.+?)\)/.exec(lineText);
+  if (mdMatch) {
+    return sanitizeLinkPath(mdMatch[1]);
+  }
+  return undefined;
+}
+
+function sanitizeLinkPath(raw: string): string {
+  const cleaned = raw.split("|")[0].split("#")[0].trim();
+  return cleaned;
+}
+
+function filterEventsForDate(
+  events: CalendarEvent[],
+  date: string
+): CalendarEvent[] {
+  return events.filter((event) => event.date === date);
+}
+
+function parseIcsEvents(
+  ics: string,
+  rangeStart?: string,
+  rangeEnd?: string,
+  calendarName?: string
+): CalendarEvent[] {
+  if (!ics.trim()) {
+    return [];
+  }
+  const jcal = ICAL.parse(ics);
+  const component = new ICAL.Component(jcal);
+  registerTimezones(component);
+  const events = component.getAllSubcomponents("vevent");
+  const parsed: CalendarEvent[] = [];
+  const startLimit = rangeStart;
+  const endLimit = rangeEnd;
+  const maxOccurrences = 2000;
+  let occurrenceCount = 0;
+
+  for (const vevent of events) {
+    const event = new ICAL.Event(vevent);
+    if (!event.startDate) {
+      continue;
+    }
+
+    if (event.isRecurring()) {
+      const iterator = event.iterator();
+      let next = iterator.next();
+      while (next) {
+        if (occurrenceCount >= maxOccurrences) {
+          break;
+        }
+        const occurrence = event.getOccurrenceDetails(next);
+        const occDate = formatIcalDate(occurrence.startDate);
+        if (startLimit && occDate < startLimit) {
+          next = iterator.next();
+          continue;
+        }
+        if (endLimit && occDate > endLimit) {
+          break;
+        }
+        parsed.push(
+          ...buildEventEntries(
+            event,
+            occurrence.startDate,
+            occurrence.endDate,
+            calendarName
+          )
+        );
+        occurrenceCount += 1;
+        next = iterator.next();
+      }
+      continue;
+    }
+
+    const singleDate = formatIcalDate(event.startDate);
+    if (startLimit && singleDate < startLimit) {
+      continue;
+    }
+    if (endLimit && singleDate > endLimit) {
+      continue;
+    }
+    parsed.push(
+      ...buildEventEntries(event, event.startDate, event.endDate, calendarName)
+    );
+    occurrenceCount += 1;
+  }
+
+  return parsed;
+}
+
+function buildEventEntries(
+  event: ICAL.Event,
+  start: ICAL.Time,
+  end?: ICAL.Time,
+  calendarName?: string
+): CalendarEvent[] {
+  const allDay = start.isDate;
+  const startDate = formatIcalDate(start);
+  const endDate = end ? formatIcalDate(end) : startDate;
+  const endDateAdjusted = allDay ? adjustDate(endDate, -1) : endDate;
+  const dates = allDay ? enumerateDates(startDate, endDateAdjusted) : [startDate];
+  const startTime = allDay ? undefined : formatIcalTime(start);
+  const endTime = allDay ? undefined : (end ? formatIcalTime(end) : undefined);
+
+  return dates.map((date) => ({
+    title: event.summary || "(Untitled)",
+    date,
+    allDay,
+    startTime,
+    endTime,
+    location: event.location || undefined,
+    calendarName
+  }));
+}
+
+function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function formatIcalDate(time: ICAL.Time): string {
+  const year = time.year;
+  const month = String(time.month).padStart(2, "0");
+  const day = String(time.day).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+function formatIcalTime(time: ICAL.Time): string {
+  const jsDate = time.toJSDate();
+  const tzid = time.zone?.tzid;
+  if (tzid && tzid !== "floating") {
+    return new Intl.DateTimeFormat([], {
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone: tzid
+    }).format(jsDate);
+  }
+  return new Intl.DateTimeFormat([], {
+    hour: "2-digit",
+    minute: "2-digit"
+  }).format(jsDate);
+}
+
+function adjustDate(date: string, offsetDays: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const adjusted = new Date(year, month - 1, day + offsetDays);
+  return formatDate(adjusted);
+}
+
+function registerTimezones(component: ICAL.Component): void {
+  const timezones = component.getAllSubcomponents("vtimezone");
+  for (const timezone of timezones) {
+    try {
+      ICAL.TimezoneService.register(timezone);
+    } catch (error) {
+      console.warn("Timezone register failed", error);
+    }
+  }
+}
+
+function startOfDay(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day, 0, 0, 0, 0);
+}
+
+function endOfDay(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day, 23, 59, 59, 999);
+}
+
+function normalizeCalendarUrl(url: string): string {
+  const trimmed = url.trim();
+  if (trimmed.startsWith("webcal://")) {
+    return `https://${trimmed.slice("webcal://".length)}`;
+  }
+  return trimmed;
+}
+
+function getCalendarNameFromUrl(url: string): string {
+  try {
+    const normalized = normalizeCalendarUrl(url);
+    const parsed = new URL(normalized);
+    return parsed.hostname;
+  } catch {
+    return "Kalender";
+  }
+}
+
+function getIndentation(line: string): number {
+  const match = /^\s*/.exec(line);
+  return match ? match[0].length : 0;
+}
+
+function parseDate(value?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const normalized = normalizeDateString(value);
+  return /^\d{4}-\d{2}-\d{2}$/.test(normalized) ? normalized : undefined;
+}
+
+function parseRepeatRule(value?: string): RepeatRule | undefined {
+  if (!value) {
+    return undefined;
+  }
+  let normalized = value.trim().toLowerCase().replace(/\s+/g, " ");
+  const whenDone = / when done$/.test(normalized);
+  normalized = normalized.replace(/ when done$/, "");
+  if (whenDone) {
+    normalized = normalized.replace(/^every /, "after ");
+  }
+  if (normalized === "every weekday") {
+    return { unit: "weekday", interval: 1, fromCompletion: false };
+  }
+  const match =
+    /^(every|after) (?:(\d+) )?(day|week|month|year)s?(?: on the (\d{1,2})(?:st|nd|rd|th)?)?$/.exec(
+      normalized
+    );
+  if (!match) {
+    return undefined;
+  }
+  const interval = match[2] ? Number.parseInt(match[2], 10) : 1;
+  const dayOfMonth = match[4] ? Number.parseInt(match[4], 10) : undefined;
+  if (interval < 1) {
+    return undefined;
+  }
+  if (
+    dayOfMonth !== undefined &&
+    (match[3] !== "month" || dayOfMonth < 1 || dayOfMonth > 31)
+  ) {
+    return undefined;
+  }
+  return {
+    unit: match[3] as RepeatRule["unit"],
+    interval,
+    dayOfMonth,
+    fromCompletion: match[1] === "after"
+  };
+}
+
+function parseReviewInterval(value?: string): RepeatRule | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const aliases: Record<string, string> = {
+    daily: "1 day",
+    weekly: "1 week",
+    monthly: "1 month",
+    yearly: "1 year",
+    dagligen: "1 dag",
+    veckovis: "1 vecka",
+    månadsvis: "1 månad",
+    årligen: "1 år"
+  };
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, " ");
+  const match = /^(?:every |varje )?(\d+)? ?(\p{L}+)$/u.exec(
+    aliases[normalized] ?? normalized
+  );
+  if (!match) {
+    return undefined;
+  }
+  const unitKey = DATE_UNIT_NAMES[match[2]] ?? match[2];
+  const units: Record<string, RepeatRule["unit"]> = {
+    d: "day",
+    w: "week",
+    m: "month",
+    y: "year"
+  };
+  const unit = units[unitKey];
+  const interval = match[1] ? Number.parseInt(match[1], 10) : 1;
+  if (!unit || interval < 1) {
+    return undefined;
+  }
+  return { unit, interval, fromCompletion: true };
+}
+
+function getNextRepeatDate(date: string, rule: RepeatRule): string {
+  const [year, month, day] = date.split("-").map(Number);
+  switch (rule.unit) {
+    case "day":
+      return adjustDate(date, rule.interval);
+    case "week":
+      return adjustDate(date, rule.interval * 7);
+    case "weekday": {
+      let next = adjustDate(date, 1);
+      while ([0, 6].includes(startOfDay(next).getDay())) {
+        next = adjustDate(next, 1);
+      }
+      return next;
+    }
+    case "month": {
+      const targetDay = rule.dayOfMonth ?? day;
+      const lastDay = new Date(year, month - 1 + rule.interval + 1, 0).getDate();
+      return formatDate(
+        new Date(year, month - 1 + rule.interval, Math.min(targetDay, lastDay))
+      );
+    }
+    case "year": {
+      const lastDay = new Date(year + rule.interval, month, 0).getDate();
+      return formatDate(
+        new Date(year + rule.interval, month - 1, Math.min(day, lastDay))
+      );
+    }
+  }
+}
+
+function getNextRepeatFields(
+  fields: TaskLineFields,
+  rule: RepeatRule,
+  completionDate: string
+): TaskLineFields {
+  const defer = parseDate(fields.defer);
+  const planned = parseDate(fields.planned);
+  const due = parseDate(fields.due);
+  const anchor = due ?? planned ?? defer;
+  if (!anchor) {
+    return {
+      ...fields,
+      done: undefined,
+      planned: getNextRepeatDate(completionDate, rule)
+    };
+  }
+  const base = rule.fromCompletion ? completionDate : anchor;
+  const offset = getDaysBetween(anchor, getNextRepeatDate(base, rule));
+  return {
+    ...fields,
+    done: undefined,
+    defer: defer ? adjustDate(defer, offset) : fields.defer,
+    planned: planned ? adjustDate(planned, offset) : fields.planned,
+    due: due ? adjustDate(due, offset) : fields.due
+  };
+}
+
+function getDaysBetween(start: string, end: string): number {
+  return Math.round(
+    (startOfDay(end).getTime() - startOfDay(start).getTime()) / 86400000
+  );
+}
+
+function parseTaskStatus(symbol: string): TaskStatus {
+  const status = (Object.keys(TASK_STATUS_SYMBOLS) as TaskStatus[]).find(
+    (key) => TASK_STATUS_SYMBOLS[key] === symbol.toLowerCase()
+  );
+  return status ?? "open";
+}
+
+function isTaskClosed(task: TaskItem): boolean {
+  return (
+    task.status === "done" ||
+    task.status === "cancelled" ||
+    task.status === "forwarded"
+  );
+}
+
+function isTaskDeferred(task: TaskItem, today: string): boolean {
+  const deferDate = parseDate(task.defer);
+  return !!deferDate && deferDate > today;
+}
+
+function isTaskAvailable(
+  task: TaskItem,
+  today: string,
+  blocked: Set<TaskItem>
+): boolean {
+  return !isTaskClosed(task) && !isTaskDeferred(task, today) && !blocked.has(task);
+}
+
+function isTaskOverdue(task: TaskItem, today: string): boolean {
+  if (isTaskClosed(task)) {
+    return false;
+  }
+  const plannedDate = parseDate(task.planned);
+  const dueDate = parseDate(task.due);
+  if (dueDate) {
+    return dueDate < today;
+  }
+  if (plannedDate) {
+    return plannedDate < today;
+  }
+  return false;
+}
+
+function groupTasksByProject(
+  app: App,
+  tasks: TaskItem[],
+  hideCompleted: boolean
+): Map<string, TaskItem[]> {
+  const result = new Map<string, TaskItem[]>();
+  for (const task of tasks) {
+    if (hideCompleted && isTaskClosed(task)) {
+      continue;
+    }
+    for (const project of getTaskProjects(app, task)) {
+      const existing = result.get(project) ?? [];
+      existing.push(task);
+      result.set(project, existing);
+    }
+  }
+  return new Map(
+    Array.from(result.entries()).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+function getProjectNames(app: App, file: TFile): string[] {
+  const cache = app.metadataCache.getFileCache(file);
+  const project = cache?.frontmatter?.projekt;
+  if (!project) {
+    return [];
+  }
+  const values = Array.isArray(project) ? project : [project];
+  return Array.from(
+    new Set(
+      values
+        .map((value) => normalizeProjectName(String(value)))
+        .filter((value) => value)
+    )
+  );
+}
+
+function getTaskProjects(app: App, task: TaskItem): string[] {
+  return task.projects.length > 0
+    ? task.projects
+    : getProjectNames(app, task.file);
+}
+
+function parseProjectList(value: string): string[] {
+  const parts = value.match(/\[\[[^\]]+\]\]|[^,]+/g) ?? [];
+  return parts
+    .map((part) => normalizeProjectName(part))
+    .filter((part) => part);
+}
 
-  const current = editor.getLine(startLine);
-  if (isTaskLine(current)) {
-    return startLine;
-  }
+function sortTasksByFileOrder(tasks: TaskItem[]): TaskItem[] {
+  return [...tasks].sort((a, b) => {
+    if (a.file.path !== b.file.path) {
+      return a.file.path.localeCompare(b.file.path);
+    }
+    return a.line - b.line;
+  });
+}
 
-  for (let i = startLine - 1; i >= 0; i -= 1) {
-    if (isTaskLine(editor.getLine(i))) {
-      return i;
+function parseProjectTypeField(content: string): ProjectType | undefined {
+  for (const line of content.split(/\r?\n/)) {
+    if (TASK_LINE_REGEX.test(line)) {
+      continue;
     }
-    if (!editor.getLine(i).trim()) {
-      break;
+    const match = /(?:^|\s)project-type::\s*([^\s]+)/i.exec(line);
+    if (match) {
+      return normalizeProjectType(match[1]);
     }
   }
-
   return undefined;
 }
 
-function parseTaskMetadata(rawText: string): {
-  text: string;
-  project?: string;
-  context?: string;
-  planned?: string;
-  due?: string;
-  review?: string;
-  tags: string[];
-} {
-  let text = rawText;
-  let project: string | undefined;
-  let context: string | undefined;
-  let planned: string | undefined;
-  let due: string | undefined;
-  let review: string | undefined;
-
-  const projectResult = extractMetadata(text, "project");
-  if (projectResult.value) {
-    project = normalizeProjectName(projectResult.value);
-    text = projectResult.text;
-  } else {
-    const projectAlt = extractMetadata(text, "projekt");
-    project = projectAlt.value
-      ? normalizeProjectName(projectAlt.value)
-      : undefined;
-    text = projectAlt.text;
+function normalizeProjectType(value: unknown): ProjectType | undefined {
+  if (typeof value !== "string") {
+    return undefined;
   }
-
-  const contextResult = extractMetadata(text, "context");
-  if (contextResult.value) {
-    context = normalizeContextName(contextResult.value);
-    text = contextResult.text;
-  } else {
-    const contextAlt = extractMetadata(text, "område");
-    context = contextAlt.value
-      ? normalizeContextName(contextAlt.value)
-      : undefined;
-    text = contextAlt.text;
+  const normalized = value.trim().toLowerCase();
+  if (["sequential", "sekventiell", "sekventiellt"].includes(normalized)) {
+    return "sequential";
   }
-
-  const plannedResult = extractMetadata(text, "planned");
-  planned = plannedResult.value;
-  text = plannedResult.text;
-
-  const dueResult = extractMetadata(text, "due");
-  due = dueResult.value;
-  text = dueResult.text;
-
-  const reviewResult = extractMetadata(text, "review");
-  review = reviewResult.value;
-  text = reviewResult.text;
-
-  const tagResult = extractTags(text);
-  text = tagResult.text;
-
-  return {
-    text: text.trim(),
-    project,
-    context,
-    planned,
-    due,
-    review,
-    tags: tagResult.tags
-  };
+  if (["parallel", "parallell", "parallellt"].includes(normalized)) {
+    return "parallel";
+  }
+  return undefined;
 }
 
-function extractMetadata(
-  text: string,
-  key: "project" | "projekt" | "context" | "område" | "planned" | "due" | "review"
-): { text: string; value?: string } {
-  const regex = new RegExp(
-    `(?:^|\\s)${key}::\\s*([^\\n]+?)(?=\\s+\\w+::|$)`,
-    "i"
-  );
-  const match = regex.exec(text);
-  if (!match) {
-    return { text };
+function normalizeProjectStatus(value: unknown): ProjectStatus | undefined {
+  if (typeof value !== "string") {
+    return undefined;
   }
-  let value = match[1].trim();
-  if (key === "planned" || key === "due" || key === "review") {
-    value = normalizeDateString(value);
+  const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, "-");
+  if (["active", "aktiv", "aktivt"].includes(normalized)) {
+    return "active";
   }
-  return {
-    text: text.replace(match[0], " "),
-    value
-  };
+  if (["on-hold", "onhold", "paused", "pausad", "pausat"].includes(normalized)) {
+    return "on-hold";
+  }
+  if (["completed", "done", "klar", "klart", "avslutad", "avslutat"].includes(normalized)) {
+    return "completed";
+  }
+  if (["dropped", "cancelled", "nedlagd", "nedlagt"].includes(normalized)) {
+    return "dropped";
+  }
+  return undefined;
 }
 
-function extractTags(text: string): { text: string; tags: string[] } {
-  const tags = text.match(/#[-\w/]+/g);
-  if (!tags) {
-    return { text, tags: [] };
+function normalizeFrontmatterDate(value: unknown): string | undefined {
+  if (value instanceof Date) {
+    return formatDate(value);
   }
-  const unique = Array.from(new Set(tags.map((tag) => normalizeTag(tag))));
-  const cleaned = text.replace(/#[-\w/]+/g, " ").replace(/\s+/g, " ");
-  return { text: cleaned, tags: unique };
+  return typeof value === "string" ? parseDate(value) : undefined;
 }
 
-function getLocalDateString(addDays = 0): string {
-  const date = new Date();
-  date.setDate(date.getDate() + addDays);
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+function sortTasksByDate(tasks: TaskItem[]): TaskItem[] {
+  return [...tasks].sort((a, b) => {
+    const aDate = parseDate(a.planned) ?? parseDate(a.due);
+    const bDate = parseDate(b.planned) ?? parseDate(b.due);
+    if (aDate && bDate && aDate !== bDate) {
+      return aDate.localeCompare(bDate);
+    }
+    if (aDate && !bDate) {
+      return -1;
+    }
+    if (!aDate && bDate) {
+      return 1;
+    }
+    const priorityOrder = getTaskPriorityRank(a) - getTaskPriorityRank(b);
+    if (priorityOrder !== 0) {
+      return priorityOrder;
+    }
+    return a.text.localeCompare(b.text);
+  });
 }
 
-function normalizeDateString(value: string): string {
-  const token = value.split(/\s+/)[0];
-  if (/^\d{4}-\d{2}-\d{2}$/.test(token)) {
-    return token;
-  }
-  return value.trim();
+function isTaskFlagged(task: TaskItem): boolean {
+  return (
+    task.flagged || task.priority === "highest" || task.priority === "high"
+  );
 }
 
-function normalizeProjectName(value: string): string {
-  const trimmed = value.trim();
-  const wikilinkMatch = /\[\[([^\]]+)\]\]/.exec(trimmed);
-  if (wikilinkMatch) {
-    return wikilinkMatch[1].trim();
+function getTaskPriorityRank(task: TaskItem): number {
+  if (task.priority === "highest") {
+    return 0;
   }
-  return trimmed.replace(/#[-\w/]+/g, " ").replace(/\s+/g, " ").trim();
-}
-
-function normalizeContextName(value: string): string {
-  return normalizeProjectName(value);
+  if (isTaskFlagged(task)) {
+    return 1;
+  }
+  if (task.priority === "medium") {
+    return 2;
+  }
+  if (task.priority === "low") {
+    return 4;
+  }
+  if (task.priority === "lowest") {
+    return 5;
+  }
+  return 3;
 }
 
-function normalizeTag(value: string): string {
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return "";
+function buildForecastMap(
+  tasks: TaskItem[],
+  startDate: string,
+  days: number,
+  hideCompleted: boolean
+): Map<string, TaskItem[]> {
+  const map = new Map<string, TaskItem[]>();
+  for (let offset = 0; offset < days; offset += 1) {
+    map.set(getLocalDateString(offset), []);
   }
-  const withHash = trimmed.startsWith("#") ? trimmed : `#${trimmed}`;
-  return withHash.toLowerCase();
-}
 
-function normalizeTagList(value: string): string[] {
-  const parts = value
-    .split(/[,\s]+/)
-    .map((part) => normalizeTag(part))
-    .filter((part) => part);
-  return Array.from(new Set(parts));
-}
+  for (const task of tasks) {
+    if (hideCompleted && isTaskClosed(task)) {
+      continue;
+    }
+    const plannedDate = parseDate(task.planned);
+    const dueDate = parseDate(task.due);
 
-function normalizeTaskText(value: string): string {
-  return value.replace(/\s+/g, " ").trim().toLowerCase();
-}
+    if (plannedDate && dueDate) {
+      const dates = enumerateDates(plannedDate, dueDate);
+      for (const date of dates) {
+        if (map.has(date)) {
+          map.get(date)!.push(task);
+        }
+      }
+      continue;
+    }
 
-function extractImagePath(lineText: string): string | undefined {
-  const wikiMatch = /!\[\[(.+?)\]\]/.exec(lineText);
-  if (wikiMatch) {
-    return sanitizeLinkPath(wikiMatch[1]);
+    if (plannedDate) {
+      if (map.has(plannedDate)) {
+        map.get(plannedDate)!.push(task);
+      }
+      continue;
+    }
+
+    if (dueDate) {
+      if (map.has(dueDate)) {
+        map.get(dueDate)!.push(task);
+      }
+    }
   }
-  const mdMatch = /!\[[^\]]*\]\((.+?)\)/.exec(lineText);
-  if (mdMatch) {
-    return sanitizeLinkPath(mdMatch[1]);
+
+  for (const [date, items] of map) {
+    map.set(date, sortTasksByDate(items));
   }
-  return undefined;
+
+  return map;
 }
 
-function sanitizeLinkPath(raw: string): string {
-  const cleaned = raw.split("|")[0].split("#")[0].trim();
-  return cleaned;
+function enumerateDates(start: string, end: string): string[] {
+  if (start > end) {
+    return [];
+  }
+  const dates: string[] = [];
+  const current = new Date(start);
+  const last = new Date(end);
+  while (current <= last) {
+    const year = current.getFullYear();
+    const month = String(current.getMonth() + 1).padStart(2, "0");
+    const day = String(current.getDate()).padStart(2, "0");
+    dates.push(`${year}-${month}-${day}`);
+    current.setDate(current.getDate() + 1);
+  }
+  return dates;
 }
 
-function filterEventsForDate(
-  events: CalendarEvent[],
-  date: string
-): CalendarEvent[] {
-  return events.filter((event) => event.date === date);
+function formatForecastTitle(date: string, offset: number): string {
+  if (offset === 0) {
+    return `Idag (${date})`;
+  }
+  if (offset === 1) {
+    return `Imorgon (${date})`;
+  }
+  return date;
 }
 
-function parseIcsEvents(
-  ics: string,
-  rangeStart?: string,
-  rangeEnd?: string,
-  calendarName?: string
-): CalendarEvent[] {
-  if (!ics.trim()) {
-    return [];
+function getNextAction(
+  tasks: TaskItem[],
+  blocked: Set<TaskItem>
+): string | undefined {
+  const openTasks = tasks.filter(
+    (task) => !isTaskClosed(task) && !blocked.has(task)
+  );
+  if (openTasks.length === 0) {
+    return undefined;
   }
-  const jcal = ICAL.parse(ics);
-  const component = new ICAL.Component(jcal);
-  registerTimezones(component);
-  const events = component.getAllSubcomponents("vevent");
-  const parsed: CalendarEvent[] = [];
-  const startLimit = rangeStart;
-  const endLimit = rangeEnd;
-  const maxOccurrences = 2000;
-  let occurrenceCount = 0;
+  const sorted = sortTasksByDate(openTasks);
+  return sorted[0]?.text;
+}
 
-  for (const vevent of events) {
-    const event = new ICAL.Event(vevent);
-    if (!event.startDate) {
-      continue;
-    }
+function getLastReview(tasks: TaskItem[]): string | undefined {
+  const reviews = tasks
+    .map((task) => parseDate(task.review))
+    .filter((value): value is string => !!value)
+    .sort((a, b) => b.localeCompare(a));
+  return reviews[0];
+}
 
-    if (event.isRecurring()) {
-      const iterator = event.iterator();
-      let next = iterator.next();
-      while (next) {
-        if (occurrenceCount >= maxOccurrences) {
-          break;
-        }
-        const occurrence = event.getOccurrenceDetails(next);
-        const occDate = formatIcalDate(occurrence.startDate);
-        if (startLimit && occDate < startLimit) {
-          next = iterator.next();
-          continue;
-        }
-        if (endLimit && occDate > endLimit) {
-          break;
+function getHierarchyValues(task: TaskItem, kind: HierarchyKind): string[] {
+  if (kind === "tag") {
+    return task.tags.map((tag) => normalizeTag(tag));
+  }
+  return task.context ? [task.context] : [];
+}
+
+function getHierarchyTree(
+  tasks: TaskItem[],
+  kind: HierarchyKind
+): HierarchyNode[] {
+  const nodes = new Map<string, HierarchyNode & { tasks: Set<TaskItem> }>();
+  const roots: HierarchyNode[] = [];
+  for (const task of tasks) {
+    for (const value of getHierarchyValues(task, kind)) {
+      const segments = value.split("/").filter((segment) => segment);
+      let parent: HierarchyNode | undefined;
+      for (let i = 0; i < segments.length; i += 1) {
+        const path = segments.slice(0, i + 1).join("/");
+        let node = nodes.get(path);
+        if (!node) {
+          node = { name: segments[i], path, count: 0, children: [], tasks: new Set() };
+          nodes.set(path, node);
+          (parent ? parent.children : roots).push(node);
         }
-        parsed.push(
-          ...buildEventEntries(
-            event,
-            occurrence.startDate,
-            occurrence.endDate,
-            calendarName
-          )
-        );
-        occurrenceCount += 1;
-        next = iterator.next();
+        node.tasks.add(task);
+        node.count = node.tasks.size;
+        parent = node;
       }
-      continue;
     }
+  }
+  const sortNodes = (list: HierarchyNode[]): HierarchyNode[] =>
+    list
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((node) => ({
+        name: node.name,
+        path: node.path,
+        count: node.count,
+        children: sortNodes(node.children)
+      }));
+  return sortNodes(roots);
+}
 
-    const singleDate = formatIcalDate(event.startDate);
-    if (startLimit && singleDate < startLimit) {
+function flattenHierarchy(nodes: HierarchyNode[]): HierarchyNode[] {
+  return nodes.flatMap((node) => [node, ...flattenHierarchy(node.children)]);
+}
+
+function isHierarchyMatch(value: string, path: string): boolean {
+  return value === path || value.startsWith(`${path}/`);
+}
+
+function renameHierarchyPath(value: string, path: string, newPath: string): string {
+  return isHierarchyMatch(value, path)
+    ? `${newPath}${value.slice(path.length)}`
+    : value;
+}
+
+function normalizeHierarchyPath(value: string, kind: HierarchyKind): string {
+  if (kind === "context") {
+    return normalizeContextName(value);
+  }
+  const segments = normalizeTag(value.trim().replace(/\s+/g, "-"))
+    .split("/")
+    .filter((segment) => segment);
+  return segments[0] === "#" ? "" : segments.join("/");
+}
+
+function groupTasksByContext(
+  tasks: TaskItem[],
+  hideCompleted: boolean
+): Map<string, TaskItem[]> {
+  const result = new Map<string, TaskItem[]>();
+  for (const task of tasks) {
+    if (hideCompleted && isTaskClosed(task)) {
       continue;
     }
-    if (endLimit && singleDate > endLimit) {
+    if (!task.context) {
       continue;
     }
-    parsed.push(
-      ...buildEventEntries(event, event.startDate, event.endDate, calendarName)
-    );
-    occurrenceCount += 1;
+    const existing = result.get(task.context) ?? [];
+    existing.push(task);
+    result.set(task.context, existing);
   }
-
-  return parsed;
+  return new Map(
+    Array.from(result.entries()).sort(([a], [b]) => a.localeCompare(b))
+  );
 }
 
-function buildEventEntries(
-  event: ICAL.Event,
-  start: ICAL.Time,
-  end?: ICAL.Time,
-  calendarName?: string
-): CalendarEvent[] {
-  const allDay = start.isDate;
-  const startDate = formatIcalDate(start);
-  const endDate = end ? formatIcalDate(end) : startDate;
-  const endDateAdjusted = allDay ? adjustDate(endDate, -1) : endDate;
-  const dates = allDay ? enumerateDates(startDate, endDateAdjusted) : [startDate];
-  const startTime = allDay ? undefined : formatIcalTime(start);
-  const endTime = allDay ? undefined : (end ? formatIcalTime(end) : undefined);
+function parseTaskQuery(source: string): {
+  query?: TaskQueryNode;
+  error?: string;
+} {
+  try {
+    const tokens = tokenizeTaskQuery(source);
+    if (tokens.length === 0) {
+      return { query: { type: "all" } };
+    }
+    let position = 0;
 
-  return dates.map((date) => ({
-    title: event.summary || "(Untitled)",
-    date,
-    allDay,
-    startTime,
-    endTime,
-    location: event.location || undefined,
-    calendarName
-  }));
-}
+    const isKeyword = (...keywords: string[]): boolean => {
+      const token = tokens[position];
+      return (
+        token?.type === "word" && keywords.includes(token.value.toLowerCase())
+      );
+    };
 
-function formatDate(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
+    const parseOr = (): TaskQueryNode => {
+      let node = parseAnd();
+      while (isKeyword("or", "eller")) {
+        position += 1;
+        node = { type: "or", left: node, right: parseAnd() };
+      }
+      return node;
+    };
 
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+    const parseAnd = (): TaskQueryNode => {
+      let node = parseUnary();
+      while (isKeyword("and", "och")) {
+        position += 1;
+        node = { type: "and", left: node, right: parseUnary() };
+      }
+      return node;
+    };
+
+    const parseUnary = (): TaskQueryNode => {
+      if (isKeyword("not", "inte")) {
+        position += 1;
+        return { type: "not", operand: parseUnary() };
+      }
+      return parsePrimary();
+    };
+
+    const parsePrimary = (): TaskQueryNode => {
+      const token = tokens[position];
+      if (!token) {
+        throw new Error("Uttrycket tar slut för tidigt.");
+      }
+      position += 1;
+      if (token.type === "paren" && token.value === "(") {
+        const node = parseOr();
+        if (tokens[position]?.value !== ")") {
+          throw new Error("Saknar avslutande parentes.");
+        }
+        position += 1;
+        return node;
+      }
+      if (token.type === "tag") {
+        return { type: "tag", tag: normalizeTag(token.value) };
+      }
+      if (token.type !== "word") {
+        throw new Error(`Oväntat "${token.value}".`);
+      }
+      const name = token.value.toLowerCase();
+      const flag = TASK_QUERY_FLAGS[name];
+      if (flag) {
+        return { type: "flag", flag };
+      }
+      const field = TASK_QUERY_FIELDS[name];
+      if (!field) {
+        throw new Error(`Okänt fält "${token.value}".`);
+      }
+      const operator = tokens[position];
+      if (operator?.type !== "op") {
+        return { type: "exists", field };
+      }
+      position += 1;
+      const value = tokens[position];
+      if (!value || value.type === "op" || value.type === "paren") {
+        throw new Error(
+          `Förväntade ett värde efter "${token.value} ${operator.value}".`
+        );
+      }
+      position += 1;
+      return createTaskQueryComparison(
+        field,
+        operator.value as TaskQueryOperator,
+        value.value
+      );
+    };
+
+    const query = parseOr();
+    if (position < tokens.length) {
+      throw new Error(`Oväntat "${tokens[position].value}".`);
+    }
+    return { query };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : "Ogiltigt uttryck."
+    };
+  }
 }
 
-function formatIcalDate(time: ICAL.Time): string {
-  const year = time.year;
-  const month = String(time.month).padStart(2, "0");
-  const day = String(time.day).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+function parseTaskBlockOptions(source: string): {
+  options?: TaskBlockOptions;
+  error?: string;
+} {
+  const clauses: string[] = [];
+  let grouping: PerspectiveGrouping = "none";
+  let sort: PerspectiveSort = "date";
+  let showCompleted = false;
+  const quote = (value: string): string =>
+    value.includes('"') ? `'${value}'` : `"${value}"`;
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      return { error: `Raden "${line}" saknar "nyckel: värde".` };
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line
+      .slice(separator + 1)
+      .trim()
+      .replace(/^(["'])(.*)\1$/, "$2");
+    const field = TASK_QUERY_FIELDS[key];
+    const flag = TASK_QUERY_FLAGS[key];
+
+    if (key === "query" || key === "filter") {
+      clauses.push(`(${value})`);
+    } else if (key === "group") {
+      if (!Object.keys(PERSPECTIVE_EMPTY_GROUP_TITLES).includes(value)) {
+        return { error: `Okänd gruppering "${value}".` };
+      }
+      grouping = value as PerspectiveGrouping;
+    } else if (key === "sort") {
+      if (!["date", "priority", "file", "text"].includes(value)) {
+        return { error: `Okänd sortering "${value}".` };
+      }
+      sort = value as PerspectiveSort;
+    } else if (key === "completed") {
+      showCompleted = parseFlagValue(value);
+    } else if (flag) {
+      clauses.push(parseFlagValue(value) ? flag : `not ${flag}`);
+    } else if (field === "tag" || key === "tags") {
+      clauses.push(...normalizeTagList(value));
+    } else if (field && TASK_QUERY_DATE_FIELDS.includes(field)) {
+      const match =
+        /^(before|före|after|efter|on|på|<=|>=|!=|<|>|=)?\s*(.+)$/iu.exec(value);
+      const operators: Record<string, TaskQueryOperator> = {
+        before: "<",
+        före: "<",
+        after: ">",
+        efter: ">",
+        on: "=",
+        på: "="
+      };
+      const operator = match?.[1]
+        ? operators[match[1].toLowerCase()] ?? match[1]
+        : "=";
+      clauses.push(`${field} ${operator} ${quote(match?.[2] ?? value)}`);
+    } else if (field) {
+      clauses.push(`${field} ${field === "text" ? "~" : "="} ${quote(value)}`);
+    } else {
+      return { error: `Okänd nyckel "${key}".` };
+    }
+  }
+
+  const { query, error } = parseTaskQuery(clauses.join(" and "));
+  if (!query) {
+    return { error };
+  }
+  return { options: { query, grouping, sort, showCompleted } };
 }
 
-function formatIcalTime(time: ICAL.Time): string {
-  const jsDate = time.toJSDate();
-  const tzid = time.zone?.tzid;
-  if (tzid && tzid !== "floating") {
-    return new Intl.DateTimeFormat([], {
-      hour: "2-digit",
-      minute: "2-digit",
-      timeZone: tzid
-    }).format(jsDate);
+function parseTaskSearch(input: string): {
+  query?: TaskQueryNode;
+  terms: string[];
+  error?: string;
+} {
+  const operators: Record<string, TaskQueryField> = {
+    p: "project",
+    c: "context",
+    t: "tag",
+    s: "status"
+  };
+  const clauses: Array<[string, string]> = [];
+  const terms: string[] = [];
+  const tokens = input.match(/[^\s:"]+:"[^"]*"|"[^"]*"|\S+/g) ?? [];
+  for (const token of tokens) {
+    if (/^#[-\w/]+$/.test(token)) {
+      clauses.push([token, normalizeTag(token)]);
+      continue;
+    }
+    const match = /^([^\s:"]+):(.+)$/u.exec(token);
+    const key = match?.[1].toLowerCase() ?? "";
+    const field = operators[key] ?? TASK_QUERY_FIELDS[key];
+    if (!match || !field) {
+      terms.push(token.replace(/^"(.*)"$/, "$1").toLowerCase());
+      continue;
+    }
+    const value = match[2].replace(/^"(.*?)"?$/, "$1");
+    const quote = (text: string): string =>
+      text.includes('"') ? `'${text}'` : `"${text}"`;
+    if (value.includes('"') && value.includes("'")) {
+      return {
+        terms,
+        error: `"${token}": värdet kan inte innehålla både " och '.`
+      };
+    }
+    if (TASK_QUERY_DATE_FIELDS.includes(field)) {
+      const dateMatch = /^(<=|>=|!=|<|>|=)?(.+)$/.exec(value);
+      clauses.push([
+        token,
+        `${field} ${dateMatch?.[1] ?? "="} ${quote(dateMatch?.[2] ?? value)}`
+      ]);
+    } else if (field === "status" || field === "priority" || field === "tag") {
+      clauses.push([token, `${field} = ${quote(value)}`]);
+    } else {
+      clauses.push([token, `${field} ~ ${quote(value)}`]);
+    }
   }
-  return new Intl.DateTimeFormat([], {
-    hour: "2-digit",
-    minute: "2-digit"
-  }).format(jsDate);
+  let query: TaskQueryNode = { type: "all" };
+  for (const [index, [token, clause]] of clauses.entries()) {
+    const parsed = parseTaskQuery(clause);
+    if (!parsed.query) {
+      return { terms, error: `"${token}": ${parsed.error}` };
+    }
+    query =
+      index === 0
+        ? parsed.query
+        : { type: "and", left: query, right: parsed.query };
+  }
+  return { query, terms };
 }
 
-function adjustDate(date: string, offsetDays: number): string {
-  const [year, month, day] = date.split("-").map(Number);
-  const adjusted = new Date(year, month - 1, day + offsetDays);
-  return formatDate(adjusted);
+function searchTasks(
+  tasks: TaskItem[],
+  terms: string[],
+  getProjects: (task: TaskItem) => string[]
+): TaskSearchMatch[] {
+  const matches: TaskSearchMatch[] = [];
+  for (const task of tasks) {
+    const fields: Array<[string, string | undefined]> = [
+      ["Titel", task.text],
+      ...task.subitems.map(
+        (item): [string, string] => ["Anteckning", item.text]
+      ),
+      ...getProjects(task).map(
+        (project): [string, string] => ["Projekt", project]
+      ),
+      ["Kontext", task.context],
+      ...task.tags.map((tag): [string, string] => ["Tagg", tag]),
+      ["Fil", task.file.path]
+    ];
+    const hits = new Map<number, TaskSearchHit>();
+    let score = 0;
+    let matchesAll = true;
+    for (const term of terms) {
+      let best: { field: number; indices: number[]; score: number } | undefined;
+      fields.forEach(([, value], field) => {
+        const result = value ? fuzzyMatch(term, value) : undefined;
+        if (result && (!best || result.score < best.score)) {
+          best = { field, ...result };
+        }
+      });
+      if (!best) {
+        matchesAll = false;
+        break;
+      }
+      const [label, value] = fields[best.field];
+      const hit = hits.get(best.field) ?? {
+        label,
+        value: value ?? "",
+        indices: []
+      };
+      hit.indices.push(...best.indices);
+      hits.set(best.field, hit);
+      score += best.score;
+    }
+    if (!matchesAll) {
+      continue;
+    }
+    matches.push({
+      task,
+      score,
+      hits: Array.from(hits.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, hit]) => hit)
+    });
+  }
+  return matches.sort(
+    (a, b) => a.score - b.score || a.task.text.localeCompare(b.task.text)
+  );
 }
 
-function registerTimezones(component: ICAL.Component): void {
-  const timezones = component.getAllSubcomponents("vtimezone");
-  for (const timezone of timezones) {
-    try {
-      ICAL.TimezoneService.register(timezone);
-    } catch (error) {
-      console.warn("Timezone register failed", error);
+function fuzzyMatch(
+  term: string,
+  value: string
+): { indices: number[]; score: number } | undefined {
+  const haystack = value.toLowerCase();
+  const start = haystack.indexOf(term);
+  if (start !== -1) {
+    return {
+      indices: Array.from({ length: term.length }, (_, offset) => start + offset),
+      score: start === 0 || /\W/.test(haystack[start - 1]) ? 0 : 1
+    };
+  }
+  const indices: number[] = [];
+  let position = 0;
+  for (const char of term) {
+    const found = haystack.indexOf(char, position);
+    if (found === -1) {
+      return undefined;
     }
+    indices.push(found);
+    position = found + 1;
   }
+  const spread = indices[indices.length - 1] - indices[0] + 1 - term.length;
+  if (spread > term.length * 3) {
+    return undefined;
+  }
+  return { indices, score: 2 + spread };
 }
 
-function startOfDay(date: string): Date {
-  const [year, month, day] = date.split("-").map(Number);
-  return new Date(year, month - 1, day, 0, 0, 0, 0);
+function renderHighlightedText(
+  container: HTMLElement,
+  text: string,
+  indices: number[]
+): void {
+  const marked = new Set(indices);
+  let buffer = "";
+  let bufferMarked = false;
+  const flush = (): void => {
+    if (!buffer) {
+      return;
+    }
+    if (bufferMarked) {
+      container.createEl("mark", { text: buffer });
+    } else {
+      container.createEl("span", { text: buffer });
+    }
+    buffer = "";
+  };
+  for (let index = 0; index < text.length; index += 1) {
+    const isMarked = marked.has(index);
+    if (isMarked !== bufferMarked) {
+      flush();
+      bufferMarked = isMarked;
+    }
+    buffer += text[index];
+  }
+  flush();
 }
 
-function endOfDay(date: string): Date {
-  const [year, month, day] = date.split("-").map(Number);
-  return new Date(year, month - 1, day, 23, 59, 59, 999);
+function tokenizeTaskQuery(source: string): TaskQueryToken[] {
+  const tokens: TaskQueryToken[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    const rest = source.slice(index);
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char });
+      index += 1;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, index + 1);
+      if (end === -1) {
+        throw new Error(`Strängen vid tecken ${index + 1} avslutas aldrig.`);
+      }
+      tokens.push({ type: "string", value: source.slice(index + 1, end) });
+      index = end + 1;
+      continue;
+    }
+    const operator = /^(<=|>=|!=|=|<|>|~)/.exec(rest);
+    if (operator) {
+      tokens.push({ type: "op", value: operator[1] });
+      index += operator[1].length;
+      continue;
+    }
+    const word = /^[^\s()"'=<>!~]+/.exec(rest);
+    if (!word) {
+      throw new Error(`Oväntat tecken "${char}".`);
+    }
+    tokens.push({
+      type: word[0].startsWith("#") ? "tag" : "word",
+      value: word[0]
+    });
+    index += word[0].length;
+  }
+  return tokens;
 }
 
-function normalizeCalendarUrl(url: string): string {
-  const trimmed = url.trim();
-  if (trimmed.startsWith("webcal://")) {
-    return `https://${trimmed.slice("webcal://".length)}`;
+function createTaskQueryComparison(
+  field: TaskQueryField,
+  operator: TaskQueryOperator,
+  value: string
+): TaskQueryNode {
+  const isDateField = TASK_QUERY_DATE_FIELDS.includes(field);
+  const isOrdered = ["<", "<=", ">", ">="].includes(operator);
+  if (isDateField && operator === "~") {
+    throw new Error(`Operatorn "~" fungerar inte med ${field}.`);
   }
-  return trimmed;
+  if (!isDateField && isOrdered) {
+    throw new Error(`Operatorn "${operator}" fungerar bara med datumfält.`);
+  }
+  if (isDateField) {
+    if (!parseNaturalDate(value)) {
+      throw new Error(`Okänt datum "${value}".`);
+    }
+    return { type: "compare", field, operator, value };
+  }
+  if (field === "status") {
+    const status = (Object.keys(TASK_STATUS_LABELS) as TaskStatus[]).find(
+      (candidate) =>
+        candidate === value.toLowerCase() ||
+        TASK_STATUS_LABELS[candidate].toLowerCase() === value.toLowerCase()
+    );
+    if (!status) {
+      throw new Error(`Okänd status "${value}".`);
+    }
+    return { type: "compare", field, operator, value: status };
+  }
+  if (field === "priority") {
+    const priority = parseTaskPriority(value);
+    if (!priority) {
+      throw new Error(`Okänd prioritet "${value}".`);
+    }
+    return { type: "compare", field, operator, value: priority };
+  }
+  if (field === "tag") {
+    return { type: "compare", field, operator, value: normalizeTag(value) };
+  }
+  return { type: "compare", field, operator, value: value.toLowerCase() };
 }
 
-function getCalendarNameFromUrl(url: string): string {
-  try {
-    const normalized = normalizeCalendarUrl(url);
-    const parsed = new URL(normalized);
-    return parsed.hostname;
-  } catch {
-    return "Kalender";
+function referencesTaskCompletion(node: TaskQueryNode): boolean {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return (
+        referencesTaskCompletion(node.left) ||
+        referencesTaskCompletion(node.right)
+      );
+    case "not":
+      return referencesTaskCompletion(node.operand);
+    case "exists":
+    case "compare":
+      return node.field === "status" || node.field === "done";
+    default:
+      return false;
+  }
+}
+
+function evaluateTaskQuery(
+  node: TaskQueryNode,
+  task: TaskItem,
+  context: TaskQueryContext
+): boolean {
+  switch (node.type) {
+    case "all":
+      return true;
+    case "and":
+      return (
+        evaluateTaskQuery(node.left, task, context) &&
+        evaluateTaskQuery(node.right, task, context)
+      );
+    case "or":
+      return (
+        evaluateTaskQuery(node.left, task, context) ||
+        evaluateTaskQuery(node.right, task, context)
+      );
+    case "not":
+      return !evaluateTaskQuery(node.operand, task, context);
+    case "tag":
+      return task.tags.some((tag) => isHierarchyMatch(tag, node.tag));
+    case "flag":
+      return matchesTaskQueryFlag(node.flag, task, context);
+    case "exists":
+      return getTaskQueryValues(node.field, task, context).length > 0;
+    case "compare": {
+      const values = getTaskQueryValues(node.field, task, context);
+      const target = TASK_QUERY_DATE_FIELDS.includes(node.field)
+        ? parseNaturalDate(node.value, context.today)
+        : node.value;
+      if (!target) {
+        return false;
+      }
+      if (node.operator === "!=") {
+        return !values.includes(target);
+      }
+      return values.some((value) => {
+        switch (node.operator) {
+          case "~":
+            return value.includes(target);
+          case "<":
+            return value < target;
+          case "<=":
+            return value <= target;
+          case ">":
+            return value > target;
+          case ">=":
+            return value >= target;
+          default:
+            return value === target;
+        }
+      });
+    }
   }
 }
 
-function getIndentation(line: string): number {
-  const match = /^\s*/.exec(line);
-  return match ? match[0].length : 0;
+function getTaskQueryValues(
+  field: TaskQueryField,
+  task: TaskItem,
+  context: TaskQueryContext
+): string[] {
+  const values: Array<string | undefined> =
+    field === "text"
+      ? [task.text]
+      : field === "project"
+      ? context.getProjects(task)
+      : field === "context"
+      ? [task.context]
+      : field === "status"
+      ? [task.status]
+      : field === "priority"
+      ? [task.priority]
+      : field === "tag"
+      ? task.tags
+      : field === "file"
+      ? [task.file.path, task.file.basename]
+      : field === "repeat"
+      ? [task.repeat]
+      : [parseDate(task[field])];
+  return values
+    .filter((value): value is string => !!value)
+    .map((value) => value.toLowerCase());
 }
 
-function parseDate(value?: string): string | undefined {
-  if (!value) {
-    return undefined;
+function matchesTaskQueryFlag(
+  flag: TaskQueryFlag,
+  task: TaskItem,
+  context: TaskQueryContext
+): boolean {
+  switch (flag) {
+    case "flagged":
+      return isTaskFlagged(task);
+    case "blocked":
+      return context.blocked.has(task);
+    case "available":
+      return isTaskAvailable(task, context.today, context.blocked);
+    case "deferred":
+      return isTaskDeferred(task, context.today);
+    case "overdue":
+      return isTaskOverdue(task, context.today);
   }
-  const normalized = normalizeDateString(value);
-  return /^\d{4}-\d{2}-\d{2}$/.test(normalized) ? normalized : undefined;
 }
 
-function isTaskOverdue(task: TaskItem, today: string): boolean {
-  if (task.completed) {
-    return false;
+function sortTasksForPerspective(
+  tasks: TaskItem[],
+  sort: PerspectiveSort
+): TaskItem[] {
+  if (sort === "file") {
+    return sortTasksByFileOrder(tasks);
   }
-  const plannedDate = parseDate(task.planned);
-  const dueDate = parseDate(task.due);
-  if (dueDate) {
-    return dueDate < today;
+  if (sort === "text") {
+    return [...tasks].sort((a, b) => a.text.localeCompare(b.text));
   }
-  if (plannedDate) {
-    return plannedDate < today;
+  if (sort === "priority") {
+    return sortTasksByDate(tasks).sort(
+      (a, b) => getTaskPriorityRank(a) - getTaskPriorityRank(b)
+    );
   }
-  return false;
+  return sortTasksByDate(tasks);
 }
 
-function groupTasksByProject(
-  app: App,
+function groupTasksForPerspective(
   tasks: TaskItem[],
-  hideCompleted: boolean
+  grouping: PerspectiveGrouping,
+  getProjects: (task: TaskItem) => string[]
 ): Map<string, TaskItem[]> {
   const result = new Map<string, TaskItem[]>();
+  const add = (key: string, task: TaskItem): void => {
+    const existing = result.get(key) ?? [];
+    existing.push(task);
+    result.set(key, existing);
+  };
   for (const task of tasks) {
-    if (hideCompleted && task.completed) {
-      continue;
-    }
-    const project = task.project ?? getProjectName(app, task.file);
-    if (!project) {
-      continue;
+    if (grouping === "none") {
+      add("", task);
+    } else if (grouping === "project") {
+      const projects = getProjects(task);
+      if (projects.length === 0) {
+        add("", task);
+      }
+      for (const project of projects) {
+        add(project, task);
+      }
+    } else if (grouping === "context") {
+      add(task.context ?? "", task);
+    } else if (grouping === "tag") {
+      if (task.tags.length === 0) {
+        add("", task);
+      }
+      for (const tag of task.tags) {
+        add(tag, task);
+      }
+    } else {
+      add(parseDate(task.planned) ?? parseDate(task.due) ?? "", task);
     }
-    const existing = result.get(project) ?? [];
-    existing.push(task);
-    result.set(project, existing);
   }
   return new Map(
-    Array.from(result.entries()).sort(([a], [b]) => a.localeCompare(b))
+    Array.from(result.entries()).sort(([a], [b]) => {
+      if (!a || !b) {
+        return a ? -1 : b ? 1 : 0;
+      }
+      return a.localeCompare(b);
+    })
   );
 }
 
-function getProjectName(app: App, file: TFile): string | undefined {
-  const cache = app.metadataCache.getFileCache(file);
-  const project = cache?.frontmatter?.projekt;
-  if (!project) {
-    return undefined;
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9-]/g, "")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function diffLines(file: TFile, before: string, after: string): LineEdit[] {
+  if (before === after) {
+    return [];
   }
-  if (Array.isArray(project)) {
-    return project.map((value) => normalizeProjectName(String(value))).join(", ");
+  const oldLines = before.split(/\r?\n/);
+  const newLines = after.split(/\r?\n/);
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start += 1;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd -= 1;
+    newEnd -= 1;
   }
-  return normalizeProjectName(String(project));
-}
 
-function sortTasksByDate(tasks: TaskItem[]): TaskItem[] {
-  return [...tasks].sort((a, b) => {
-    const aDate = parseDate(a.planned) ?? parseDate(a.due);
-    const bDate = parseDate(b.planned) ?? parseDate(b.due);
-    if (aDate && bDate) {
-      return aDate.localeCompare(bDate);
-    }
-    if (aDate && !bDate) {
-      return -1;
-    }
-    if (!aDate && bDate) {
-      return 1;
+  const runs: LineRun[] = [];
+  for (const run of getChangedLineRuns(
+    oldLines.slice(start, oldEnd),
+    newLines.slice(start, newEnd)
+  )) {
+    const previous = runs[runs.length - 1];
+    // Keep runs apart so their context lines never overlap.
+    if (previous && start + run.oldStart - previous.oldEnd < 2) {
+      previous.oldEnd = start + run.oldEnd;
+      previous.newEnd = start + run.newEnd;
+    } else {
+      runs.push({
+        oldStart: start + run.oldStart,
+        oldEnd: start + run.oldEnd,
+        newStart: start + run.newStart,
+        newEnd: start + run.newEnd
+      });
     }
-    return a.text.localeCompare(b.text);
+  }
+
+  return runs.map((run) => {
+    const context = run.oldStart > 0 ? 1 : 0;
+    return {
+      file,
+      start: run.oldStart - context,
+      before: oldLines.slice(
+        run.oldStart - context,
+        Math.min(oldLines.length, run.oldEnd + 1)
+      ),
+      after: newLines.slice(
+        run.newStart - context,
+        Math.min(newLines.length, run.newEnd + 1)
+      )
+    };
   });
 }
 
-function buildForecastMap(
-  tasks: TaskItem[],
-  startDate: string,
-  days: number,
-  hideCompleted: boolean
-): Map<string, TaskItem[]> {
-  const map = new Map<string, TaskItem[]>();
-  for (let offset = 0; offset < days; offset += 1) {
-    map.set(getLocalDateString(offset), []);
+function getChangedLineRuns(
+  oldLines: string[],
+  newLines: string[]
+): LineRun[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  if (n === 0 && m === 0) {
+    return [];
   }
-
-  for (const task of tasks) {
-    if (hideCompleted && task.completed) {
-      continue;
+  if (n === 0 || m === 0 || n * m > DIFF_CELL_LIMIT) {
+    return [{ oldStart: 0, oldEnd: n, newStart: 0, newEnd: m }];
+  }
+  const width = m + 1;
+  const common = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i -= 1) {
+    for (let j = m - 1; j >= 0; j -= 1) {
+      common[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? common[(i + 1) * width + j + 1] + 1
+          : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
     }
-    const plannedDate = parseDate(task.planned);
-    const dueDate = parseDate(task.due);
+  }
 
-    if (plannedDate && dueDate) {
-      const dates = enumerateDates(plannedDate, dueDate);
-      for (const date of dates) {
-        if (map.has(date)) {
-          map.get(date)!.push(task);
-        }
-      }
+  const runs: LineRun[] = [];
+  let run: LineRun | undefined;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      run = undefined;
+      i += 1;
+      j += 1;
       continue;
     }
-
-    if (plannedDate) {
-      if (map.has(plannedDate)) {
-        map.get(plannedDate)!.push(task);
-      }
-      continue;
+    if (!run) {
+      run = { oldStart: i, oldEnd: i, newStart: j, newEnd: j };
+      runs.push(run);
     }
-
-    if (dueDate) {
-      if (map.has(dueDate)) {
-        map.get(dueDate)!.push(task);
-      }
+    if (
+      j < m &&
+      (i === n || common[i * width + j + 1] >= common[(i + 1) * width + j])
+    ) {
+      j += 1;
+      run.newEnd = j;
+    } else {
+      i += 1;
+      run.oldEnd = i;
     }
   }
+  return runs;
+}
 
-  for (const [date, items] of map) {
-    map.set(date, sortTasksByDate(items));
+function findLineEdits(
+  lines: string[],
+  edits: LineEdit[],
+  direction: "undo" | "redo"
+): number[] | undefined {
+  const starts: number[] = [];
+  let offset = 0;
+  let earliest = 0;
+  for (const edit of edits) {
+    const expected = direction === "undo" ? edit.after : edit.before;
+    const start = findLineBlock(
+      lines,
+      expected,
+      edit.start + (direction === "undo" ? offset : 0)
+    );
+    if (start === undefined || start < earliest) {
+      return undefined;
+    }
+    starts.push(start);
+    earliest = start + expected.length;
+    offset += edit.after.length - edit.before.length;
   }
-
-  return map;
+  return starts;
 }
 
-function enumerateDates(start: string, end: string): string[] {
-  if (start > end) {
-    return [];
+function findLineBlock(
+  lines: string[],
+  block: string[],
+  hint: number
+): number | undefined {
+  const matchesAt = (start: number): boolean =>
+    start + block.length <= lines.length &&
+    block.every((line, offset) => lines[start + offset] === line);
+  if (matchesAt(hint)) {
+    return hint;
   }
-  const dates: string[] = [];
-  const current = new Date(start);
-  const last = new Date(end);
-  while (current <= last) {
-    const year = current.getFullYear();
-    const month = String(current.getMonth() + 1).padStart(2, "0");
-    const day = String(current.getDate()).padStart(2, "0");
-    dates.push(`${year}-${month}-${day}`);
-    current.setDate(current.getDate() + 1);
+  const candidates: number[] = [];
+  for (let start = 0; start + block.length <= lines.length; start += 1) {
+    if (matchesAt(start)) {
+      candidates.push(start);
+    }
   }
-  return dates;
+  return candidates.length === 1 ? candidates[0] : undefined;
 }
 
-function formatForecastTitle(date: string, offset: number): string {
-  if (offset === 0) {
-    return `Idag (${date})`;
+function getTaskKey(task: TaskItem): string {
+  return task.blockId
+    ? `${task.file.path}#^${task.blockId}`
+    : `${task.file.path}:${task.line}`;
+}
+
+function getTaskBlockEnd(lines: string[], index: number): number {
+  const indent = getIndentation(lines[index]);
+  let end = index + 1;
+  while (
+    end < lines.length &&
+    lines[end].trim() &&
+    getIndentation(lines[end]) > indent
+  ) {
+    end += 1;
   }
-  if (offset === 1) {
-    return `Imorgon (${date})`;
+  return end;
+}
+
+function getTaskBlocks(
+  lines: string[],
+  tasks: TaskItem[]
+): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const task of tasks) {
+    const index = findTaskLineIndex(lines, task);
+    if (index === undefined) {
+      notifyTaskNotFound(task);
+      continue;
+    }
+    ranges.push({ start: index, end: getTaskBlockEnd(lines, index) });
   }
-  return date;
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.filter(
+    (range, i) => !ranges.slice(0, i).some((other) => range.start < other.end)
+  );
 }
 
-function getNextAction(tasks: TaskItem[]): string | undefined {
-  const openTasks = tasks.filter((task) => !task.completed);
-  if (openTasks.length === 0) {
-    return undefined;
+function groupTasksByFile(tasks: TaskItem[]): Map<TFile, TaskItem[]> {
+  const result = new Map<TFile, TaskItem[]>();
+  for (const task of tasks) {
+    const existing = result.get(task.file) ?? [];
+    existing.push(task);
+    result.set(task.file, existing);
   }
-  const sorted = sortTasksByDate(openTasks);
-  return sorted[0]?.text;
+  return result;
 }
 
-function getLastReview(tasks: TaskItem[]): string | undefined {
-  const reviews = tasks
-    .map((task) => parseDate(task.review))
-    .filter((value): value is string => !!value)
-    .sort((a, b) => b.localeCompare(a));
-  return reviews[0];
+async function moveTaskToTarget(
+  app: App,
+  task: TaskItem,
+  target: TaskMoveTarget
+): Promise<boolean> {
+  return (await moveTasksToTarget(app, [task], target)) > 0;
 }
 
-function getTagSummary(
+async function moveTasksToTarget(
+  app: App,
   tasks: TaskItem[],
-  hideCompleted: boolean
-): Array<{ name: string; count: number }> {
-  const counts = new Map<string, number>();
-  for (const task of tasks) {
-    if (hideCompleted && task.completed) {
-      continue;
+  target: TaskMoveTarget
+): Promise<number> {
+  const sources = new Map<TFile, string[]>();
+  const moved: string[] = [];
+  let headingLine = target.line;
+  let count = 0;
+  for (const [file, fileTasks] of groupTasksByFile(tasks)) {
+    const lines = (await app.vault.read(file)).split(/\r?\n/);
+    const ranges = getTaskBlocks(lines, fileTasks);
+    for (const { start, end } of ranges) {
+      const indent = getIndentation(lines[start]);
+      moved.push(
+        ...lines
+          .slice(start, end)
+          .map((line) => line.slice(Math.min(indent, getIndentation(line))))
+      );
+    }
+    for (const { start, end } of ranges.slice().reverse()) {
+      lines.splice(start, end - start);
+      if (
+        file === target.file &&
+        headingLine !== undefined &&
+        end <= headingLine
+      ) {
+        headingLine -= end - start;
+      }
     }
-    for (const tag of task.tags) {
-      const normalized = normalizeTag(tag);
-      counts.set(normalized, (counts.get(normalized) ?? 0) + 1);
+    if (ranges.length > 0) {
+      sources.set(file, lines);
+      count += ranges.length;
     }
   }
-  return Array.from(counts.entries())
-    .map(([name, count]) => ({ name, count }))
-    .sort((a, b) => a.name.localeCompare(b.name));
-}
+  if (count === 0) {
+    return 0;
+  }
 
-function groupTasksByContext(
-  tasks: TaskItem[],
-  hideCompleted: boolean
-): Map<string, TaskItem[]> {
-  const result = new Map<string, TaskItem[]>();
-  for (const task of tasks) {
-    if (hideCompleted && task.completed) {
-      continue;
-    }
-    if (!task.context) {
-      continue;
+  const heading = target.heading
+    ? `${"#".repeat(target.level ?? 2)} ${target.heading}`
+    : "";
+  const targetLines = sources.get(target.file);
+  const targetContent = targetLines
+    ? targetLines.join("\n")
+    : await app.vault.read(target.file);
+  await app.vault.modify(
+    target.file,
+    insertLinesUnderHeading(targetContent, heading, moved, headingLine)
+  );
+  for (const [file, lines] of sources) {
+    if (file !== target.file) {
+      await app.vault.modify(file, lines.join("\n"));
     }
-    const existing = result.get(task.context) ?? [];
-    existing.push(task);
-    result.set(task.context, existing);
   }
-  return new Map(
-    Array.from(result.entries()).sort(([a], [b]) => a.localeCompare(b))
+  new Notice(
+    count === 1 && tasks.length === 1
+      ? `Flyttade "${tasks[0].text}" till ${target.file.basename}.`
+      : `Flyttade ${count} ${count === 1 ? "uppgift" : "uppgifter"} till ${target.file.basename}.`
   );
+  return count;
 }
 
-function slugify(value: string): string {
-  return value
-    .toLowerCase()
-    .replace(/\s+/g, "-")
-    .replace(/[^a-z0-9-]/g, "")
-    .replace(/-+/g, "-")
-    .replace(/^-|-$/g, "");
+async function deleteTasksFromFiles(
+  app: App,
+  tasks: TaskItem[]
+): Promise<number> {
+  let count = 0;
+  for (const [file, fileTasks] of groupTasksByFile(tasks)) {
+    const lines = (await app.vault.read(file)).split(/\r?\n/);
+    const ranges = getTaskBlocks(lines, fileTasks);
+    if (ranges.length === 0) {
+      continue;
+    }
+    for (const { start, end } of ranges.slice().reverse()) {
+      lines.splice(start, end - start);
+    }
+    await app.vault.modify(file, lines.join("\n"));
+    count += ranges.length;
+  }
+  new Notice(`Tog bort ${count} uppgifter.`);
+  return count;
 }
 
-
 async function updateTaskInFile(
   app: App,
   task: TaskItem,
-  updates: {
-    text?: string;
-    project?: string;
-    context?: string;
-    planned?: string;
-    due?: string;
-    review?: string;
-    completed?: boolean;
-    tags?: string[];
-  }
-): Promise<void> {
+  updates: TaskUpdates,
+  defaultFormat: MetadataFormat = DEFAULT_SETTINGS.metadataFormat
+): Promise<boolean> {
   const content = await app.vault.read(task.file);
   const lines = content.split(/\r?\n/);
-  const index = task.line - 1;
+  if (!applyTaskUpdate(lines, task, updates, defaultFormat)) {
+    return false;
+  }
+  await app.vault.modify(task.file, lines.join("\n"));
+  return true;
+}
+
+async function updateTasksInFiles(
+  app: App,
+  changes: Array<{ task: TaskItem; updates: TaskUpdates }>,
+  defaultFormat: MetadataFormat = DEFAULT_SETTINGS.metadataFormat
+): Promise<number> {
+  let updated = 0;
+  const tasksByFile = groupTasksByFile(changes.map(({ task }) => task));
+  for (const [file, tasks] of tasksByFile) {
+    const lines = (await app.vault.read(file)).split(/\r?\n/);
+    const applied = changes.filter(
+      ({ task, updates }) =>
+        tasks.includes(task) &&
+        applyTaskUpdate(lines, task, updates, defaultFormat)
+    ).length;
+    if (applied > 0) {
+      await app.vault.modify(file, lines.join("\n"));
+      updated += applied;
+    }
+  }
+  return updated;
+}
 
-  if (index < 0 || index >= lines.length) {
-    return;
+function applyTaskUpdate(
+  lines: string[],
+  task: TaskItem,
+  updates: TaskUpdates,
+  defaultFormat: MetadataFormat
+): boolean {
+  const index = findTaskLineIndex(lines, task);
+
+  if (index === undefined) {
+    notifyTaskNotFound(task);
+    return false;
   }
 
   const lineText = lines[index];
-  const match = /^(\s*[-*])\s+\[( |x|X)\]\s+(.*)$/.exec(lineText);
+  const match = TASK_LINE_REGEX.exec(lineText);
   if (!match) {
-    return;
+    notifyTaskNotFound(task);
+    return false;
   }
 
   const bullet = match[1];
   const checkbox = match[2];
   const current = parseTaskMetadata(match[3]);
+  const previousStatus = parseTaskStatus(checkbox);
+
+  const pick = <K extends keyof typeof updates & keyof typeof current>(
+    key: K
+  ): (typeof current)[K] | (typeof updates)[K] =>
+    key in updates ? updates[key] : current[key];
+
+  const fields: TaskLineFields = {
+    text: (updates.text ?? current.text).trim(),
+    projects: pick("projects"),
+    context: pick("context"),
+    defer: pick("defer"),
+    planned: pick("planned"),
+    due: pick("due"),
+    review: pick("review"),
+    repeat: pick("repeat"),
+    created: current.created,
+    done: current.done,
+    blockedBy: updates.blockedBy ?? current.blockedBy,
+    flagged: pick("flagged"),
+    priority: pick("priority"),
+    tags: updates.tags ?? current.tags
+  };
+  const status = updates.status ?? previousStatus;
+  const blockId = current.blockId ?? generateBlockId(lines);
+  const isNewlyDone = status === "done" && previousStatus !== "done";
+  if (isNewlyDone) {
+    fields.done = getLocalDateString();
+  } else if (status !== "done" && previousStatus === "done") {
+    fields.done = undefined;
+  }
 
-  const text = (updates.text ?? current.text).trim();
-  const project = updates.project ?? current.project;
-  const context = updates.context ?? current.context;
-  const planned = updates.planned ?? current.planned;
-  const due = updates.due ?? current.due;
-  const review = updates.review ?? current.review;
-  const completed = updates.completed ?? task.completed;
-  const tagsList = updates.tags ?? current.tags;
+  lines[index] = formatTaskLine(
+    bullet,
+    status,
+    fields,
+    match[3],
+    defaultFormat,
+    blockId
+  );
 
-  const metaParts: string[] = [];
-  const projectKey = /(?:^|\s)projekt::/i.test(match[3])
+  const repeatRule = parseRepeatRule(fields.repeat);
+  if (isNewlyDone && repeatRule) {
+    const nextFields = getNextRepeatFields(
+      fields,
+      repeatRule,
+      getLocalDateString()
+    );
+    lines.splice(
+      index,
+      0,
+      formatTaskLine(bullet, "open", nextFields, match[3], defaultFormat)
+    );
+  }
+  return true;
+}
+
+type TaskUpdates = {
+  text?: string;
+  projects?: string[];
+  context?: string;
+  defer?: string;
+  planned?: string;
+  due?: string;
+  review?: string;
+  repeat?: string;
+  blockedBy?: string[];
+  flagged?: boolean;
+  priority?: TaskPriority;
+  status?: TaskStatus;
+  tags?: string[];
+};
+
+type TaskLineFields = {
+  text: string;
+  projects?: string[];
+  context?: string;
+  defer?: string;
+  planned?: string;
+  due?: string;
+  review?: string;
+  repeat?: string;
+  created?: string;
+  done?: string;
+  blockedBy?: string[];
+  flagged?: boolean;
+  priority?: TaskPriority;
+  tags: string[];
+};
+
+function formatTaskLine(
+  bullet: string,
+  status: TaskStatus,
+  fields: TaskLineFields,
+  originalBody: string,
+  defaultFormat: MetadataFormat,
+  blockId?: string
+): string {
+  const format = detectMetadataFormat(originalBody) ?? defaultFormat;
+  const projectKey = /(?:^|[\s[(])projekt::/i.test(originalBody)
     ? "projekt"
     : "project";
-  if (project) {
-    metaParts.push(`${projectKey}:: ${project}`);
-  }
-  const contextKey = /(?:^|\s)område::/i.test(match[3])
+  const contextKey = /(?:^|[\s[(])område::/iu.test(originalBody)
     ? "område"
     : "context";
-  if (context) {
-    metaParts.push(`${contextKey}:: ${context}`);
-  }
-  if (planned) {
-    metaParts.push(`planned:: ${planned}`);
-  }
-  if (due) {
-    metaParts.push(`due:: ${due}`);
-  }
-  if (review) {
-    metaParts.push(`review:: ${review}`);
-  }
+  const entries: Array<[string, string | undefined, string?]> = [
+    [
+      "priority",
+      fields.priority,
+      fields.priority && TASKS_PRIORITY_EMOJI[fields.priority]
+    ],
+    [
+      projectKey,
+      fields.projects && fields.projects.length > 0
+        ? fields.projects.join(", ")
+        : undefined
+    ],
+    [contextKey, fields.context],
+    ["created", fields.created, TASKS_EMOJI.created],
+    ["defer", fields.defer, TASKS_EMOJI.defer],
+    ["planned", fields.planned, TASKS_EMOJI.planned],
+    ["due", fields.due, TASKS_EMOJI.due],
+    ["done", fields.done, TASKS_EMOJI.done],
+    ["review", fields.review],
+    ["repeat", fields.repeat, TASKS_EMOJI.repeat],
+    [
+      "blockedBy",
+      fields.blockedBy && fields.blockedBy.length > 0
+        ? fields.blockedBy.map((blockId) => `^${blockId}`).join(", ")
+        : undefined
+    ],
+    ["flag", fields.flagged ? "true" : undefined]
+  ];
 
-  const tags = tagsList.length > 0 ? ` ${tagsList.join(" ")}` : "";
+  const metaParts: string[] = [];
+  const emojiParts: string[] = [];
+  for (const [key, value, emoji] of entries) {
+    if (!value) {
+      continue;
+    }
+    const fieldFormat = detectFieldFormat(originalBody, key) ?? format;
+    if (fieldFormat === "tasks" && emoji) {
+      emojiParts.push(key === "priority" ? emoji : `${emoji} ${value}`);
+    } else if (fieldFormat === "bracket") {
+      metaParts.push(`[${key}:: ${value}]`);
+    } else {
+      metaParts.push(`${key}:: ${value}`);
+    }
+  }
+  const emojiOrder = [
+    ...Object.values(TASKS_PRIORITY_EMOJI),
+    ...Object.values(TASKS_EMOJI)
+  ];
+  emojiParts.sort(
+    (a, b) =>
+      emojiOrder.findIndex((emoji) => a.startsWith(emoji)) -
+      emojiOrder.findIndex((emoji) => b.startsWith(emoji))
+  );
 
+  const tags = fields.tags.length > 0 ? ` ${fields.tags.join(" ")}` : "";
   const meta = metaParts.length > 0 ? ` ${metaParts.join(" ")}` : "";
-  const checkboxValue = completed ? "x" : " ";
-  lines[index] = `${bullet} [${checkboxValue}] ${text}${meta}${tags}`.trimEnd();
-
-  await app.vault.modify(task.file, lines.join("\n"));
+  const emojiMeta = emojiParts.length > 0 ? ` ${emojiParts.join(" ")}` : "";
+  const checkboxValue = TASK_STATUS_SYMBOLS[status];
+  const suffix = blockId ? ` ^${blockId}` : "";
+  return `${bullet} [${checkboxValue}] ${fields.text}${meta}${tags}${emojiMeta}${suffix}`;
 }